@@ -1,22 +1,214 @@
+import { NATIVE_SOL, WalletActivity, WalletActivitySource, WalletTransfer } from "./walletActivity"
+
+export type RiskFactorName =
+  | "walletAge"
+  | "counterpartyConcentration"
+  | "freshMints"
+  | "roundTrips"
+  | "burstActivity"
+  | "knownBadProximity"
+
+export type RiskWeights = Record<RiskFactorName, number>
+
+export interface RiskFactor {
+  name: RiskFactorName
+  /** Normalized weight (weights sum to 1) */
+  weight: number
+  /** 0 (benign) to 1 (risky) */
+  risk: number
+  /** Points this factor adds to the 0-100 score */
+  contribution: number
+  /** Raw measurement behind the risk, in the unit described by `detail` */
+  value: number
+  detail: string
+}
+
 export interface RiskScore {
   address: string
   score: number
   level: "low" | "medium" | "high"
+  factors: RiskFactor[]
+  /** Transfers the factors were computed from */
+  sampledTransfers: number
 }
 
+export interface RiskScoringOptions {
+  /** Relative factor weights; missing ones keep their default */
+  weights?: Partial<RiskWeights>
+  /** Addresses flagged elsewhere (scams, drainers, sanctioned wallets) */
+  knownBad?: Iterable<string>
+  /** Wallets younger than this carry age risk (default: 180 days) */
+  matureAgeDays?: number
+  /** A mint counts as fresh when touched within this long of its creation (default: 7 days) */
+  freshMintDays?: number
+  /** Max time between a transfer and its return leg (default: 24h) */
+  roundTripWindowMs?: number
+  /** Relative amount difference still treated as the same value (default: 0.1) */
+  roundTripTolerance?: number
+  /** Window used to find activity bursts (default: 5 min) */
+  burstWindowMs?: number
+  /** Transfers in one window below which nothing counts as a burst (default: 5) */
+  burstMinTransfers?: number
+}
+
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  walletAge: 0.2,
+  counterpartyConcentration: 0.15,
+  freshMints: 0.15,
+  roundTrips: 0.15,
+  burstActivity: 0.1,
+  knownBadProximity: 0.25,
+}
+
+const DAY_MS = 86_400_000
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n))
+const round = (n: number, digits = 3) => Math.round(n * 10 ** digits) / 10 ** digits
+
+type Measurement = Pick<RiskFactor, "risk" | "value" | "detail">
+
+/**
+ * Scores a wallet from its on-chain behaviour. Each factor yields a 0-1 risk;
+ * the score is their weighted sum scaled to 0-100.
+ */
 export class RiskScoring {
-  /**  
-   * Compute a simple risk score based on account data length 
-   * (placeholder for more advanced on‐chain heuristics)
+  private readonly weights: RiskWeights
+  private readonly knownBad: Set<string>
+
+  constructor(private readonly source?: WalletActivitySource, private readonly opts: RiskScoringOptions = {}) {
+    const weights = { ...DEFAULT_RISK_WEIGHTS, ...opts.weights }
+    const total = Object.values(weights).reduce((sum, w) => sum + w, 0)
+    if (Object.values(weights).some(w => !Number.isFinite(w) || w < 0) || total <= 0) {
+      throw new Error("Risk weights must be non-negative numbers with a positive sum")
+    }
+    this.weights = Object.fromEntries(
+      Object.entries(weights).map(([name, w]) => [name, w / total])
+    ) as RiskWeights
+    this.knownBad = new Set(opts.knownBad ?? [])
+  }
+
+  /**
+   * Load the wallet's activity from the configured source and score it
    */
-  async compute(addressInfoSize: number): Promise<RiskScore> {
-    const rawScore = Math.min(100, Math.round((addressInfoSize / 1024) * 10))
-    const level: RiskScore["level"] =
-      rawScore > 70 ? "high" : rawScore > 40 ? "medium" : "low"
+  async compute(address: string): Promise<RiskScore> {
+    if (!this.source) throw new Error("RiskScoring needs a WalletActivitySource to compute by address")
+    return this.score(await this.source.load(address))
+  }
+
+  /** Score already-loaded activity */
+  score(activity: WalletActivity, now = Date.now()): RiskScore {
+    const measurements: Record<RiskFactorName, Measurement> = {
+      walletAge: this.walletAge(activity, now),
+      counterpartyConcentration: this.counterpartyConcentration(activity.transfers),
+      freshMints: this.freshMints(activity),
+      roundTrips: this.roundTrips(activity.transfers),
+      burstActivity: this.burstActivity(activity.transfers),
+      knownBadProximity: this.knownBadProximity(activity),
+    }
+
+    const factors = (Object.keys(measurements) as RiskFactorName[]).map(name => {
+      const { risk, value, detail } = measurements[name]
+      const weight = this.weights[name]
+      return { name, weight: round(weight), risk: round(risk), contribution: round(risk * weight * 100, 1), value, detail }
+    })
+    const score = Math.round(factors.reduce((sum, f) => sum + f.risk * this.weights[f.name] * 100, 0))
+    const level: RiskScore["level"] = score > 70 ? "high" : score > 40 ? "medium" : "low"
+
+    return { address: activity.address, score, level, factors, sampledTransfers: activity.transfers.length }
+  }
+
+  /** Young wallets are riskier; decays logarithmically until `matureAgeDays` */
+  private walletAge(activity: WalletActivity, now: number): Measurement {
+    if (activity.firstSeenAt === undefined) return { risk: 1, value: 0, detail: "no activity found" }
+    const ageDays = Math.max(0, (now - activity.firstSeenAt) / DAY_MS)
+    const mature = this.opts.matureAgeDays ?? 180
+    // A truncated scan only proves the wallet is at least this old, so the risk is an upper bound
+    const risk = 1 - Math.log1p(ageDays) / Math.log1p(mature)
     return {
-      address: `size:${addressInfoSize}`,
-      score: rawScore,
-      level
+      risk: clamp01(risk),
+      value: round(ageDays, 1),
+      detail: activity.fullHistory ? "age in days" : "age in days (lower bound, history truncated)",
+    }
+  }
+
+  /** Herfindahl index of counterparties by transfer count */
+  private counterpartyConcentration(transfers: WalletTransfer[]): Measurement {
+    if (transfers.length < 3) return { risk: 0, value: 0, detail: "too few transfers" }
+    const counts = new Map<string, number>()
+    transfers.forEach(t => counts.set(t.counterparty, (counts.get(t.counterparty) ?? 0) + 1))
+    const hhi = Array.from(counts.values()).reduce((sum, n) => sum + (n / transfers.length) ** 2, 0)
+    return { risk: hhi, value: round(hhi), detail: `HHI over ${counts.size} counterparties` }
+  }
+
+  /** Share of token mints first touched shortly after they were created */
+  private freshMints(activity: WalletActivity): Measurement {
+    const window = (this.opts.freshMintDays ?? 7) * DAY_MS
+    const firstTouch = new Map<string, number>()
+    for (const t of activity.transfers) {
+      if (t.mint !== NATIVE_SOL && !firstTouch.has(t.mint)) firstTouch.set(t.mint, t.timestamp)
     }
+    const known = Array.from(firstTouch).filter(([mint]) => activity.mintCreatedAt[mint] !== undefined)
+    if (!known.length) return { risk: 0, value: 0, detail: "no mint creation times" }
+    const fresh = known.filter(([mint, at]) => at - activity.mintCreatedAt[mint]! <= window).length
+    return { risk: fresh / known.length, value: fresh, detail: `fresh mints out of ${known.length}` }
+  }
+
+  /** Share of transfers that come back from the same counterparty with about the same amount */
+  private roundTrips(transfers: WalletTransfer[]): Measurement {
+    if (!transfers.length) return { risk: 0, value: 0, detail: "no transfers" }
+    const windowMs = this.opts.roundTripWindowMs ?? DAY_MS
+    const tolerance = this.opts.roundTripTolerance ?? 0.1
+    const matched = new Set<number>()
+    let trips = 0
+    for (let i = 0; i < transfers.length; i++) {
+      if (matched.has(i)) continue
+      const a = transfers[i]
+      for (let j = i + 1; j < transfers.length && transfers[j].timestamp - a.timestamp <= windowMs; j++) {
+        const b = transfers[j]
+        if (
+          matched.has(j) ||
+          b.direction === a.direction ||
+          b.counterparty !== a.counterparty ||
+          b.mint !== a.mint ||
+          Math.abs(b.amount - a.amount) > tolerance * Math.max(a.amount, b.amount)
+        ) {
+          continue
+        }
+        matched.add(i).add(j)
+        trips++
+        break
+      }
+    }
+    return { risk: clamp01((2 * trips) / transfers.length), value: trips, detail: "round trips" }
+  }
+
+  /** Peak transfers in one window compared with the wallet's average rate */
+  private burstActivity(transfers: WalletTransfer[]): Measurement {
+    const windowMs = this.opts.burstWindowMs ?? 5 * 60_000
+    const minTransfers = this.opts.burstMinTransfers ?? 5
+    if (transfers.length < minTransfers) return { risk: 0, value: 0, detail: "too few transfers" }
+
+    let peak = 0
+    for (let start = 0, end = 0; end < transfers.length; end++) {
+      while (transfers[end].timestamp - transfers[start].timestamp > windowMs) start++
+      peak = Math.max(peak, end - start + 1)
+    }
+    const span = transfers[transfers.length - 1].timestamp - transfers[0].timestamp
+    const expected = Math.max(1, (transfers.length * windowMs) / Math.max(span, windowMs))
+    const ratio = peak / expected
+    // 3x the average rate starts to count; 20x is maximal
+    const risk = peak < minTransfers ? 0 : clamp01((ratio - 3) / 17)
+    return { risk, value: round(ratio, 2), detail: `peak ${peak} transfers per window vs average` }
+  }
+
+  /** Direct exposure to known-bad wallets, weighted by share of transfers */
+  private knownBadProximity(activity: WalletActivity): Measurement {
+    if (this.knownBad.has(activity.address)) return { risk: 1, value: 1, detail: "address itself is flagged" }
+    const flagged = activity.transfers.filter(t => this.knownBad.has(t.counterparty))
+    if (!flagged.length) return { risk: 0, value: 0, detail: "flagged counterparties" }
+    const distinct = new Set(flagged.map(t => t.counterparty)).size
+    const share = flagged.length / activity.transfers.length
+    // Any direct contact is already significant
+    return { risk: clamp01(0.5 + 0.5 * share), value: distinct, detail: "flagged counterparties" }
   }
 }
@@ -1,29 +1,177 @@
 export type HeatmapPoint = {
-  weekday: number // 0 = Sunday, …, 6 = Saturday
-  hour: number // 0–23
+  /** Row key: weekday, day of month, or "YYYY-MM-DD" depending on the layout */
+  row: number | string
+  weekday: number // 0 = Sunday, …, 6 = Saturday; -1 for dayOfMonth rows
+  hour: number // 0–23, hour the bucket starts in
+  /** Minute of the day the bucket starts at */
+  minute: number
+  /** Bucket index within the day */
+  bucket: number
+  /** Event count, or summed amount when weighting by amount */
   count: number
 }
 
+/** Rows by weekday (7), day of month (31), or one per calendar date in range */
+export type HeatmapLayout = "weekday" | "dayOfMonth" | "calendar"
+
+/** Minutes per bucket; must divide a day evenly */
+export type HeatmapBucketMinutes = 15 | 30 | 60 | 120 | 240
+
+/** What a cell adds up: events, or their transfer amounts */
+export type HeatmapWeight = "count" | "amount"
+
+/** A timestamp with an optional transfer amount */
+export interface HeatmapEvent {
+  timestamp: number
+  amount?: number
+}
+
 export interface HeatmapOptions {
   /** Normalize counts into 0–1 scale */
   normalize?: boolean
   /** Ignore timestamps <= 0 or invalid dates (default: true) */
   skipInvalid?: boolean
-  /** Optional time zone (default: UTC). Pass "local" to use system local time */
-  timeZone?: "utc" | "local"
+  /** "utc" (default), "local" for system time, or any IANA zone such as "America/New_York" */
+  timeZone?: "utc" | "local" | string
+  /** Bucket size in minutes (default: 60) */
+  bucketMinutes?: HeatmapBucketMinutes
+  /** Default: "weekday" */
+  layout?: HeatmapLayout
+  /**
+   * Sum transfer amounts instead of counting events (default: "count"). Events
+   * without an amount are invalid then, and plain timestamps carry none.
+   */
+  weight?: HeatmapWeight
+}
+
+export interface HeatmapDiffOptions {
+  /** Multiplier for baseline cells, e.g. 1/4 when the baseline covers four weeks (default: 1) */
+  baselineScale?: number
+  /** Weighting both heatmaps were built with (default: "count") */
+  weight?: HeatmapWeight
+  /** |z| at which a count cell is flagged abnormal (default: 3) */
+  zThreshold?: number
+  /**
+   * Amount cells have no Poisson model; one is flagged when current / baseline
+   * reaches this factor either way, or the baseline is 0 and current is not (default: 3)
+   */
+  ratioThreshold?: number
+}
+
+export type HeatmapDiffPoint = Omit<HeatmapPoint, "count"> & {
+  current: number
+  /** Scaled baseline value */
+  baseline: number
+  delta: number
+  /** current / baseline; null when the baseline is 0 */
+  ratio: number | null
+  /** Deviation in Poisson standard deviations of the baseline; null for amount-weighted maps */
+  z: number | null
+  abnormal: boolean
+}
+
+interface ZonedParts {
+  date: string
+  day: number
+  weekday: number
+  minuteOfDay: number
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 }
+const BUCKET_SIZES = [15, 30, 60, 120, 240]
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/** Cached formatter for a zone; throws on unknown zones */
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone)
+  if (!fmt) {
+    try {
+      fmt = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    } catch {
+      throw new Error(`Invalid time zone: ${timeZone}`)
+    }
+    formatters.set(timeZone, fmt)
+  }
+  return fmt
 }
 
+const pad = (n: number) => String(n).padStart(2, "0")
+
+function zonedParts(d: Date, timeZone: string): ZonedParts {
+  if (timeZone === "utc" || timeZone === "local") {
+    const utc = timeZone === "utc"
+    const year = utc ? d.getUTCFullYear() : d.getFullYear()
+    const month = (utc ? d.getUTCMonth() : d.getMonth()) + 1
+    const day = utc ? d.getUTCDate() : d.getDate()
+    return {
+      date: `${year}-${pad(month)}-${pad(day)}`,
+      day,
+      weekday: utc ? d.getUTCDay() : d.getDay(),
+      minuteOfDay: (utc ? d.getUTCHours() : d.getHours()) * 60 + (utc ? d.getUTCMinutes() : d.getMinutes()),
+    }
+  }
+  const parts: Record<string, string> = {}
+  for (const p of formatterFor(timeZone).formatToParts(d)) parts[p.type] = p.value
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    day: Number(parts.day),
+    weekday: WEEKDAYS[parts.weekday],
+    minuteOfDay: Number(parts.hour) * 60 + Number(parts.minute),
+  }
+}
+
+/** Every "YYYY-MM-DD" from `from` to `to` inclusive */
+function dateRange(from: string, to: string): string[] {
+  const dates: string[] = []
+  const cursor = new Date(`${from}T00:00:00Z`)
+  const end = new Date(`${to}T00:00:00Z`).getTime()
+  while (cursor.getTime() <= end) {
+    dates.push(cursor.toISOString().slice(0, 10))
+    cursor.setUTCDate(cursor.getUTCDate() + 1)
+  }
+  return dates
+}
+
+const cellKey = (row: number | string, bucket: number) => `${row}|${bucket}`
+
 export class TokenActivityHeatmap {
   /**
-   * Build a 7×24 heatmap from an array of timestamps.
-   * @param timestamps Unix‐ms timestamps of transfer events
+   * Build a heatmap (7×24 weekday/hour by default) from transfer timestamps
+   * or events with amounts.
+   * @param events Unix‐ms timestamps, or events with optional amounts
    * @param opts Optional configuration
    */
-  build(timestamps: number[], opts: HeatmapOptions = {}): HeatmapPoint[] {
-    const { normalize = false, skipInvalid = true, timeZone = "utc" } = opts
+  build(events: Array<number | HeatmapEvent>, opts: HeatmapOptions = {}): HeatmapPoint[] {
+    const {
+      normalize = false,
+      skipInvalid = true,
+      timeZone = "utc",
+      bucketMinutes = 60,
+      layout = "weekday",
+      weight = "count",
+    } = opts
+    if (!BUCKET_SIZES.includes(bucketMinutes)) {
+      throw new Error(`bucketMinutes must be one of ${BUCKET_SIZES.join(", ")}`)
+    }
+    // Fail on a bad zone even when there is nothing to bucket
+    if (timeZone !== "utc" && timeZone !== "local") formatterFor(timeZone)
+
     const buckets: Record<string, number> = {}
+    const dates = new Set<string>()
+    let missingAmounts = 0
 
-    for (const ts of timestamps) {
+    for (const event of events) {
+      const ts = typeof event === "number" ? event : event.timestamp
       if (!Number.isFinite(ts) || ts <= 0) {
         if (skipInvalid) continue
         else throw new Error(`Invalid timestamp: ${ts}`)
@@ -33,21 +181,58 @@ export class TokenActivityHeatmap {
         if (skipInvalid) continue
         else throw new Error(`Invalid date from timestamp: ${ts}`)
       }
+      const raw = weight === "amount" ? (typeof event === "number" ? undefined : event.amount) : 1
+      if (raw === undefined || raw === null) {
+        missingAmounts++
+        if (skipInvalid) continue
+        else throw new Error(`Missing amount for timestamp ${ts}; weight "amount" needs events with amounts`)
+      }
+      const amount = Number(raw)
+      if (!Number.isFinite(amount)) {
+        if (skipInvalid) continue
+        else throw new Error(`Invalid amount for timestamp ${ts}`)
+      }
+
+      const parts = zonedParts(d, timeZone)
+      const row = layout === "weekday" ? parts.weekday : layout === "dayOfMonth" ? parts.day : parts.date
+      if (layout === "calendar") dates.add(parts.date)
+      const key = cellKey(row, Math.floor(parts.minuteOfDay / bucketMinutes))
+      buckets[key] = (buckets[key] || 0) + amount
+    }
 
-      const weekday = timeZone === "utc" ? d.getUTCDay() : d.getDay()
-      const hour = timeZone === "utc" ? d.getUTCHours() : d.getHours()
-      const key = `${weekday}-${hour}`
-      buckets[key] = (buckets[key] || 0) + 1
+    // Skipping every event would just draw an empty map
+    if (missingAmounts && missingAmounts === events.length) {
+      throw new Error('weight "amount" needs events with amounts; none of the events carry one')
     }
 
+    // Calendar rows span first to last active date, quiet days included
+    const sortedDates = [...dates].sort()
+    const rows: Array<number | string> =
+      layout === "weekday"
+        ? [0, 1, 2, 3, 4, 5, 6]
+        : layout === "dayOfMonth"
+          ? Array.from({ length: 31 }, (_, i) => i + 1)
+          : sortedDates.length
+            ? dateRange(sortedDates[0], sortedDates[sortedDates.length - 1])
+            : []
+
+    const perDay = 1440 / bucketMinutes
     const points: HeatmapPoint[] = []
     let maxCount = 0
-    for (let day = 0; day < 7; day++) {
-      for (let hour = 0; hour < 24; hour++) {
-        const key = `${day}-${hour}`
-        const count = buckets[key] || 0
+    for (const row of rows) {
+      for (let bucket = 0; bucket < perDay; bucket++) {
+        const count = buckets[cellKey(row, bucket)] || 0
         if (count > maxCount) maxCount = count
-        points.push({ weekday: day, hour, count })
+        const minute = bucket * bucketMinutes
+        points.push({
+          row,
+          weekday:
+            layout === "weekday" ? (row as number) : layout === "calendar" ? new Date(`${row}T00:00:00Z`).getUTCDay() : -1,
+          hour: Math.floor(minute / 60),
+          minute,
+          bucket,
+          count,
+        })
       }
     }
 
@@ -62,14 +247,57 @@ export class TokenActivityHeatmap {
   }
 
   /**
-   * Convert the heatmap into a matrix [7][24] for easier visualization
+   * Compare a heatmap against a baseline built with the same layout and
+   * bucket size, e.g. this week vs. the trailing four weeks with
+   * `baselineScale: 1 / 4`. Count cells are flagged by Poisson z-score;
+   * amount-weighted ones (pass `weight: "amount"`) by ratio, since summed
+   * amounts do not follow a Poisson distribution.
+   */
+  diff(current: HeatmapPoint[], baseline: HeatmapPoint[], opts: HeatmapDiffOptions = {}): HeatmapDiffPoint[] {
+    const scale = opts.baselineScale ?? 1
+    const zThreshold = opts.zThreshold ?? 3
+    const ratioThreshold = opts.ratioThreshold ?? 3
+    const byCount = (opts.weight ?? "count") === "count"
+    const base = new Map(baseline.map(p => [cellKey(p.row, p.bucket), p.count]))
+    if (baseline.length && !current.some(p => base.has(cellKey(p.row, p.bucket)))) {
+      throw new Error("Heatmaps do not share any cells; use the same layout and bucket size")
+    }
+
+    return current.map(({ count, ...cell }) => {
+      const expected = (base.get(cellKey(cell.row, cell.bucket)) ?? 0) * scale
+      const delta = count - expected
+      const ratio = expected > 0 ? count / expected : null
+      // Poisson noise: spread grows with the square root of the expected count
+      const z = byCount ? delta / Math.sqrt(Math.max(expected, 1)) : null
+      const abnormal =
+        z !== null
+          ? Math.abs(z) >= zThreshold
+          : ratio === null
+            ? count > 0
+            : ratio >= ratioThreshold || ratio <= 1 / ratioThreshold
+      return {
+        ...cell,
+        current: count,
+        baseline: expected,
+        delta,
+        ratio,
+        z,
+        abnormal,
+      }
+    })
+  }
+
+  /**
+   * Convert the heatmap into a rows × buckets matrix (7×24 by default) for
+   * easier visualization; rows follow the order they appear in `points`
    */
   toMatrix(points: HeatmapPoint[]): number[][] {
-    const matrix: number[][] = Array.from({ length: 7 }, () =>
-      Array.from({ length: 24 }, () => 0)
-    )
+    const rows = Array.from(new Set(points.map(p => p.row)))
+    const buckets = points.reduce((max, p) => Math.max(max, p.bucket + 1), 0)
+    const matrix: number[][] = rows.map(() => Array.from({ length: buckets }, () => 0))
+    const index = new Map(rows.map((row, i) => [row, i]))
     for (const p of points) {
-      matrix[p.weekday][p.hour] = p.count
+      matrix[index.get(p.row)!][p.bucket] = p.count
     }
     return matrix
   }
@@ -1,17 +1,287 @@
+import { EventEmitter } from "events"
+
 export interface BurstPrediction {
   start: number     // Unix‐ms
   end: number       // Unix‐ms
   confidence: number // 0.0–1.0
 }
 
+/**
+ * How "normal" volume is estimated:
+ *  - global: mean/stddev of the whole series (batch only)
+ *  - ewma: exponentially weighted mean/variance
+ *  - mad: rolling median and median absolute deviation
+ */
+export type BurstBaseline = "global" | "ewma" | "mad"
+
+export interface BurstOptions {
+  /** Default: "global" for TokenBurstPredictor, "mad" for BurstStream */
+  baseline?: BurstBaseline
+  /** z-score that opens a burst (default: 3) */
+  threshold?: number
+  /** z-score a burst must stay above to continue (default: threshold / 2) */
+  exitThreshold?: number
+  /** Quiet points that close a burst; ewma/mad only (default: 1) */
+  cooldown?: number
+  /** EWMA smoothing factor, 0-1 (default: 0.2) */
+  alpha?: number
+  /** Rolling window size for "mad" (default: 30) */
+  window?: number
+  /** Points needed before anything can be flagged; ewma/mad only (default: 2) */
+  warmup?: number
+  /**
+   * Floor for the baseline spread as a fraction of its center (default: 0.1), so
+   * a flat series still yields finite z-scores
+   */
+  minScale?: number
+}
+
+export interface Burst {
+  start: number
+  end: number
+  durationMs: number
+  points: number
+  peakAt: number
+  peakVolume: number
+  peakZ: number
+  meanZ: number
+  totalVolume: number
+  /** Baseline volume when the burst opened */
+  baseline: number
+  confidence: number
+}
+
+export interface BurstStreamEvents {
+  burstStart: (burst: Burst) => void
+  burstEnd: (burst: Burst) => void
+}
+
+/** Absolute spread floor for a baseline centered on zero */
+const EPSILON = 1e-9
+/** Scales MAD to a standard deviation for normal data */
+const MAD_SCALE = 1.4826
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = sorted.length >> 1
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/** Baseline spread, floored so a flat series does not pin z-scores or the winsorize cap */
+const spreadOf = (center: number, scale: number, minScale: number): number =>
+  Math.max(scale, Math.abs(center) * minScale, EPSILON)
+
+const zScore = (value: number, center: number, scale: number, minScale: number): number =>
+  (value - center) / spreadOf(center, scale, minScale)
+
+/** 0.5 right at the threshold, 1.0 at twice the threshold */
+const confidenceOf = (peakZ: number, threshold: number) =>
+  Math.max(0, Math.min(1, peakZ / (threshold * 2)))
+
+interface Baseline {
+  /** Center and spread estimated from the points seen so far */
+  estimate(): { center: number; scale: number } | undefined
+  update(value: number): void
+}
+
+class EwmaBaseline implements Baseline {
+  private mean = 0
+  private variance = 0
+  private count = 0
+
+  constructor(private readonly alpha: number, private readonly warmup: number) {}
+
+  estimate() {
+    return this.count < this.warmup ? undefined : { center: this.mean, scale: Math.sqrt(this.variance) }
+  }
+
+  update(value: number): void {
+    if (this.count++ === 0) {
+      this.mean = value
+      return
+    }
+    const diff = value - this.mean
+    this.mean += this.alpha * diff
+    this.variance = (1 - this.alpha) * (this.variance + this.alpha * diff * diff)
+  }
+}
+
+class MadBaseline implements Baseline {
+  private readonly values: number[] = []
+
+  constructor(private readonly window: number, private readonly warmup: number) {}
+
+  estimate() {
+    if (this.values.length < this.warmup) return undefined
+    const center = median(this.values)
+    const mad = median(this.values.map(v => Math.abs(v - center))) * MAD_SCALE
+    // Mostly-constant series have zero MAD; fall back to the mean absolute deviation
+    const scale = mad || (this.values.reduce((sum, v) => sum + Math.abs(v - center), 0) / this.values.length) * 1.2533
+    return { center, scale }
+  }
+
+  update(value: number): void {
+    this.values.push(value)
+    if (this.values.length > this.window) this.values.shift()
+  }
+}
+
+interface OpenBurst {
+  burst: Burst
+  zSum: number
+  quiet: number
+}
+
+/**
+ * Incremental burst detection for live feeds: push points as they arrive and
+ * listen for burstStart/burstEnd. Values feeding the baseline are winsorized
+ * at the threshold, so bursts barely move it while a lasting level shift is
+ * still absorbed over time.
+ */
+export class BurstStream extends EventEmitter {
+  private readonly baseline: Baseline
+  private readonly threshold: number
+  private readonly exitThreshold: number
+  private readonly cooldown: number
+  private readonly minScale: number
+  private open?: OpenBurst
+  private lastTimestamp = -Infinity
+
+  constructor(opts: BurstOptions = {}) {
+    super()
+    const kind = opts.baseline ?? "mad"
+    if (kind === "global") throw new Error("The global baseline needs the whole series; use ewma or mad for streams")
+    const warmup = Math.max(2, opts.warmup ?? 2)
+    this.baseline = kind === "ewma"
+      ? new EwmaBaseline(Math.min(1, Math.max(0.001, opts.alpha ?? 0.2)), warmup)
+      : new MadBaseline(Math.max(warmup, opts.window ?? 30), warmup)
+    this.threshold = opts.threshold ?? 3
+    this.exitThreshold = opts.exitThreshold ?? this.threshold / 2
+    this.cooldown = Math.max(1, opts.cooldown ?? 1)
+    this.minScale = Math.max(0, opts.minScale ?? 0.1)
+  }
+
+  public override on<K extends keyof BurstStreamEvents>(event: K, listener: BurstStreamEvents[K]): this {
+    return super.on(event, listener as any)
+  }
+
+  /** The burst in progress, if any */
+  get active(): Burst | undefined {
+    return this.open && { ...this.open.burst }
+  }
+
+  /**
+   * Feed one point (timestamps must not go backwards); returns the burst it
+   * closed, if any
+   */
+  push(timestamp: number, volume: number): Burst | undefined {
+    if (timestamp < this.lastTimestamp) throw new Error(`Out-of-order point: ${timestamp} < ${this.lastTimestamp}`)
+    this.lastTimestamp = timestamp
+
+    const estimate = this.baseline.estimate()
+    const z = estimate ? zScore(volume, estimate.center, estimate.scale, this.minScale) : 0
+    let closed: Burst | undefined
+
+    if (this.open) {
+      if (z >= this.exitThreshold) {
+        this.extend(this.open, timestamp, volume, z)
+      } else if (++this.open.quiet >= this.cooldown) {
+        closed = this.close()
+      }
+    } else if (estimate && z >= this.threshold) {
+      this.open = {
+        burst: {
+          start: timestamp,
+          end: timestamp,
+          durationMs: 0,
+          points: 0,
+          peakAt: timestamp,
+          peakVolume: volume,
+          peakZ: z,
+          meanZ: 0,
+          totalVolume: 0,
+          baseline: estimate.center,
+          confidence: 0,
+        },
+        zSum: 0,
+        quiet: 0,
+      }
+      this.extend(this.open, timestamp, volume, z)
+      this.emit("burstStart", { ...this.open.burst })
+    }
+
+    const cap = estimate && estimate.center + this.threshold * spreadOf(estimate.center, estimate.scale, this.minScale)
+    this.baseline.update(cap === undefined ? volume : Math.min(volume, cap))
+    return closed
+  }
+
+  /** Close the burst in progress (end of input); returns it if there was one */
+  flush(): Burst | undefined {
+    return this.open ? this.close() : undefined
+  }
+
+  private extend(open: OpenBurst, timestamp: number, volume: number, z: number): void {
+    const b = open.burst
+    b.end = timestamp
+    b.durationMs = b.end - b.start
+    b.points++
+    b.totalVolume += volume
+    open.zSum += z
+    open.quiet = 0
+    b.meanZ = open.zSum / b.points
+    if (z >= b.peakZ) {
+      b.peakZ = z
+      b.peakAt = timestamp
+      b.peakVolume = volume
+    }
+    b.confidence = confidenceOf(b.peakZ, this.threshold)
+  }
+
+  private close(): Burst {
+    const burst = this.open!.burst
+    this.open = undefined
+    this.emit("burstEnd", burst)
+    return burst
+  }
+}
+
 export class TokenBurstPredictor {
+  constructor(private readonly opts: BurstOptions = {}) {}
+
+  /**
+   * Every distinct burst in a series of [timestamp, volume], oldest first
+   */
+  detect(series: Array<[number, number]>): Burst[] {
+    const sorted = [...series].sort((a, b) => a[0] - b[0])
+    if ((this.opts.baseline ?? "global") === "global") return this.detectGlobal(sorted)
+
+    const stream = new BurstStream(this.opts)
+    const bursts: Burst[] = []
+    for (const [ts, vol] of sorted) {
+      const closed = stream.push(ts, vol)
+      if (closed) bursts.push(closed)
+    }
+    const last = stream.flush()
+    if (last) bursts.push(last)
+    return bursts
+  }
+
   /**
    * Given a time series of volumes, detect the most recent “burst” window.
+   * Without a `baseline` option this is the original rule: the span from the
+   * first to the last point above 2× the series average. With one, it is the
+   * latest burst found by `detect`.
    * @param series array of [timestamp, volume]
    */
   predict(series: Array<[number, number]>): BurstPrediction | null {
     if (series.length < 2) return null
+    if (!this.opts.baseline) return this.predictAverage(series)
+    const bursts = this.detect(series)
+    const latest = bursts[bursts.length - 1]
+    return latest ? { start: latest.start, end: latest.end, confidence: latest.confidence } : null
+  }
 
+  private predictAverage(series: Array<[number, number]>): BurstPrediction | null {
     // compute simple moving average over full series
     const totalVol = series.reduce((sum, [, v]) => sum + v, 0)
     const avgVol = totalVol / series.length
@@ -34,4 +304,43 @@ export class TokenBurstPredictor {
 
     return { start: burstStart, end: burstEnd!, confidence }
   }
+
+  /** Whole-series mean/stddev baseline, contiguous runs above threshold */
+  private detectGlobal(series: Array<[number, number]>): Burst[] {
+    if (series.length < 2) return []
+    const threshold = this.opts.threshold ?? 3
+    const exit = this.opts.exitThreshold ?? threshold / 2
+    const minScale = Math.max(0, this.opts.minScale ?? 0.1)
+    const mean = series.reduce((sum, [, v]) => sum + v, 0) / series.length
+    const std = Math.sqrt(series.reduce((sum, [, v]) => sum + (v - mean) ** 2, 0) / series.length)
+
+    const bursts: Burst[] = []
+    let current: Array<[number, number, number]> = []
+    const closeRun = () => {
+      if (!current.length) return
+      const peak = current.reduce((best, p) => (p[2] >= best[2] ? p : best))
+      const meanZ = current.reduce((sum, p) => sum + p[2], 0) / current.length
+      bursts.push({
+        start: current[0][0],
+        end: current[current.length - 1][0],
+        durationMs: current[current.length - 1][0] - current[0][0],
+        points: current.length,
+        peakAt: peak[0],
+        peakVolume: peak[1],
+        peakZ: peak[2],
+        meanZ,
+        totalVolume: current.reduce((sum, p) => sum + p[1], 0),
+        baseline: mean,
+        confidence: confidenceOf(peak[2], threshold),
+      })
+      current = []
+    }
+    for (const [ts, vol] of series) {
+      const z = zScore(vol, mean, std, minScale)
+      if (current.length ? z >= exit : z >= threshold) current.push([ts, vol, z])
+      else closeRun()
+    }
+    closeRun()
+    return bursts
+  }
 }
@@ -0,0 +1,189 @@
+import pLimit from "p-limit"
+import {
+  Connection,
+  PublicKey,
+  ConfirmedSignatureInfo,
+  ParsedInstruction,
+  PartiallyDecodedInstruction,
+  ParsedTransactionWithMeta,
+} from "@solana/web3.js"
+
+/** SOL mint pseudo-address used for native transfers */
+export const NATIVE_SOL = "So11111111111111111111111111111111111111112"
+
+/** A transfer into or out of the scored wallet */
+export interface WalletTransfer {
+  signature: string
+  timestamp: number
+  direction: "in" | "out"
+  /** Wallet on the other side (token account owner for SPL transfers) */
+  counterparty: string
+  mint: string
+  amount: number
+}
+
+/** Everything the risk factors are computed from */
+export interface WalletActivity {
+  address: string
+  /** Oldest activity seen (Unix ms); a lower bound when history was truncated */
+  firstSeenAt?: number
+  /** True when the signature scan reached the wallet's first transaction */
+  fullHistory: boolean
+  transfers: WalletTransfer[]
+  /** Creation time (Unix ms) per interacted mint, when it could be established */
+  mintCreatedAt: Record<string, number | undefined>
+}
+
+export interface WalletActivitySource {
+  load(address: string): Promise<WalletActivity>
+}
+
+export interface SolanaActivityOptions {
+  /** Signatures scanned for age and transfers (default: 500) */
+  signatureLimit?: number
+  /** Transactions parsed for transfers, newest first (default: 200) */
+  transactionLimit?: number
+  /** Mints whose creation time is looked up (default: 20) */
+  maxMints?: number
+  /** Max concurrent RPC calls (default: 5) */
+  concurrency?: number
+}
+
+type AnyInstr = ParsedInstruction | PartiallyDecodedInstruction
+
+const PAGE = 1000
+
+/**
+ * Loads wallet activity from a Solana RPC node: paginated signature history
+ * for age, parsed SOL and SPL transfers, and mint creation times
+ */
+export class SolanaWalletActivitySource implements WalletActivitySource {
+  private readonly conn: Connection
+
+  constructor(rpcUrl: string, private readonly opts: SolanaActivityOptions = {}) {
+    this.conn = new Connection(rpcUrl, "confirmed")
+  }
+
+  async load(address: string): Promise<WalletActivity> {
+    let key: PublicKey
+    try {
+      key = new PublicKey(address)
+    } catch {
+      throw new Error(`Invalid address: ${address}`)
+    }
+    const signatureLimit = this.opts.signatureLimit ?? 500
+    const transactionLimit = this.opts.transactionLimit ?? 200
+    const limit = pLimit(Math.max(1, this.opts.concurrency ?? 5))
+
+    const { signatures, complete } = await this.history(key, signatureLimit)
+    const times = signatures.map(s => s.blockTime).filter((t): t is number => !!t)
+    const transfers: WalletTransfer[] = []
+
+    await Promise.all(
+      signatures.slice(0, transactionLimit).map(({ signature, blockTime, err }) =>
+        limit(async () => {
+          if (!blockTime || err) return
+          try {
+            const tx = await this.conn.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0 })
+            if (tx) transfers.push(...this.transfersOf(tx, address, signature, blockTime * 1000))
+          } catch (e: any) {
+            console.warn(`[RiskScoring] Error processing ${signature}: ${e?.message ?? e}`)
+          }
+        })
+      )
+    )
+    transfers.sort((a, b) => a.timestamp - b.timestamp)
+
+    const mints = Array.from(new Set(transfers.map(t => t.mint).filter(m => m !== NATIVE_SOL)))
+    const mintCreatedAt: Record<string, number | undefined> = {}
+    await Promise.all(
+      mints.slice(0, this.opts.maxMints ?? 20).map(mint =>
+        limit(async () => {
+          mintCreatedAt[mint] = await this.mintCreatedAt(mint)
+        })
+      )
+    )
+
+    return {
+      address,
+      firstSeenAt: times.length ? Math.min(...times) * 1000 : undefined,
+      fullHistory: complete,
+      transfers,
+      mintCreatedAt,
+    }
+  }
+
+  /** Newest-first signatures, paging back with `before` until `max` or the start of history */
+  private async history(key: PublicKey, max: number): Promise<{ signatures: ConfirmedSignatureInfo[]; complete: boolean }> {
+    const signatures: ConfirmedSignatureInfo[] = []
+    let before: string | undefined
+    while (signatures.length < max) {
+      const want = Math.min(PAGE, max - signatures.length)
+      const page = await this.conn.getSignaturesForAddress(key, { before, limit: want })
+      signatures.push(...page)
+      if (page.length < want) return { signatures, complete: true }
+      before = page[page.length - 1].signature
+    }
+    return { signatures, complete: false }
+  }
+
+  /** Creation time of a mint, known only when its whole history fits one page */
+  private async mintCreatedAt(mint: string): Promise<number | undefined> {
+    try {
+      const page = await this.conn.getSignaturesForAddress(new PublicKey(mint), { limit: PAGE })
+      if (!page.length || page.length === PAGE) return undefined
+      const oldest = page[page.length - 1].blockTime
+      return oldest ? oldest * 1000 : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  private transfersOf(tx: ParsedTransactionWithMeta, address: string, signature: string, timestamp: number): WalletTransfer[] {
+    const keys = tx.transaction.message.accountKeys.map(k => k.pubkey.toBase58())
+    // Token account -> owner/mint/decimals, from the balances the RPC node already resolved
+    const tokenAccounts = new Map<string, { owner?: string; mint: string; decimals: number }>()
+    for (const b of [...(tx.meta?.preTokenBalances ?? []), ...(tx.meta?.postTokenBalances ?? [])]) {
+      tokenAccounts.set(keys[b.accountIndex], { owner: b.owner, mint: b.mint, decimals: b.uiTokenAmount.decimals })
+    }
+
+    const instructions: AnyInstr[] = [
+      ...tx.transaction.message.instructions,
+      ...(tx.meta?.innerInstructions ?? []).flatMap(i => i.instructions),
+    ]
+    const out: WalletTransfer[] = []
+    for (const ix of instructions) {
+      if (!("parsed" in ix) || !ix.parsed) continue
+      const { type, info } = ix.parsed
+      let from: string | undefined
+      let to: string | undefined
+      let mint: string
+      let amount: number
+
+      if (ix.program === "system" && type === "transfer") {
+        from = info.source
+        to = info.destination
+        mint = NATIVE_SOL
+        amount = Number(info.lamports) / 1e9
+      } else if (ix.program === "spl-token" && (type === "transfer" || type === "transferChecked")) {
+        const source = tokenAccounts.get(info.source)
+        const destination = tokenAccounts.get(info.destination)
+        from = source?.owner ?? info.authority
+        to = destination?.owner
+        mint = info.mint ?? source?.mint ?? destination?.mint
+        const decimals = source?.decimals ?? destination?.decimals ?? 0
+        amount = info.tokenAmount ? Number(info.tokenAmount.uiAmount) : Number(info.amount) / 10 ** decimals
+        if (!mint) continue
+      } else {
+        continue
+      }
+
+      if (from === address && to && to !== address) {
+        out.push({ signature, timestamp, direction: "out", counterparty: to, mint, amount })
+      } else if (to === address && from && from !== address) {
+        out.push({ signature, timestamp, direction: "in", counterparty: from, mint, amount })
+      }
+    }
+    return out
+  }
+}
@@ -1,54 +1,152 @@
-import fetch from "node-fetch"
+import { JobStatus, JobTracker } from "../../jobtracker/jobTracker"
+import { JobRunner } from "../../jobtracker/jobRunner"
+import { sharedTracker } from "../../jobtracker/sharedTracker"
+import { hubJobType, isHubJob, toHubTask } from "../../jobtracker/jobAdapters"
+import { PipelineDefinition, PipelineRun, PipelineRunner } from "./pipeline"
+import { HubTaskHandler, HubTaskRegistry } from "./taskRegistry"
+import { builtinHandlers } from "./builtinHandlers"
+import type { JsonSchema } from "../typestruct/jsonSchema"
 
 export interface HubTask {
   id: string
   type: string
   params: Record<string, any>
   status: "pending" | "running" | "done" | "error"
+  /** Handler return value once done */
+  result?: unknown
+  /** Failure reason once errored */
+  error?: string
 }
 
 export class MainHubService {
-  private tasks: HubTask[] = []
+  private readonly pipelines: PipelineRunner
+  private readonly registry = new HubTaskRegistry()
 
-  createTask(type: string, params: Record<string, any>): HubTask {
-    const task: HubTask = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+  constructor(
+    private readonly tracker: JobTracker = sharedTracker(),
+    private readonly runner: JobRunner = new JobRunner(tracker),
+    handlers: HubTaskHandler[] = builtinHandlers()
+  ) {
+    this.pipelines = new PipelineRunner(this, tracker)
+    handlers.forEach(h => this.registerTaskType(h))
+  }
+
+  /**
+   * Add a task type; its params are validated through the handler's TypeStruct
+   * and it runs on the shared runner with the handler's timeout and retry policy
+   */
+  registerTaskType<P, R>(handler: HubTaskHandler<P, R>): this {
+    this.registry.register(handler)
+    this.runner.register(
+      hubJobType(handler.type),
+      (params: unknown, ctx) => handler.run(this.registry.parseParams(handler.type, params), ctx),
+      { timeoutMs: handler.timeoutMs, retry: handler.retry }
+    )
+    return this
+  }
+
+  /** Registered task types with their descriptions */
+  taskTypes(): { type: string; description?: string; params: JsonSchema }[] {
+    return this.registry.list().map(({ type, description, params }) => ({
       type,
-      params,
-      status: "pending"
-    }
-    this.tasks.push(task)
-    return task
+      description,
+      params: params.toJSONSchema({ dialect: false }),
+    }))
+  }
+
+  /**
+   * Create a pending task. Params of known types are validated up front
+   * (throws InvalidTaskParamsError); unknown types fail when run.
+   */
+  createTask(type: string, params: Record<string, any>): HubTask {
+    const handler = this.registry.get(type)
+    if (handler) this.registry.parseParams(type, params)
+    const job = this.tracker.create(type, {
+      type: hubJobType(type),
+      payload: params,
+      timeoutMs: handler?.timeoutMs,
+      maxAttempts: handler?.retry?.maxAttempts,
+    })
+    return toHubTask(job)
+  }
+
+  /**
+   * Check params against a registered task type without creating anything;
+   * throws InvalidTaskParamsError, or Error for an unknown type
+   */
+  validateTaskParams(type: string, params: Record<string, any>): void {
+    this.registry.parseParams(type, params)
+  }
+
+  /** Whether this hub can execute the given task type */
+  hasTaskType(type: string): boolean {
+    return this.registry.has(type)
   }
 
   listTasks(): HubTask[] {
-    return [...this.tasks]
+    return this.tracker.list().filter(isHubJob).map(toHubTask)
   }
 
+  /**
+   * Queue the task on the shared runner and resolve once it settles.
+   * Failed tasks are re-queued; completed or already running ones are returned as-is.
+   */
   async runTask(id: string): Promise<HubTask | undefined> {
-    const task = this.tasks.find(t => t.id === id)
-    if (!task) return
-    task.status = "running"
-    try {
-      // dispatch based on type
-      let result
-      if (task.type === "fetchPrice") {
-        const { symbol, apiUrl } = task.params
-        const res = await fetch(`${apiUrl}/price/${symbol}`)
-        result = await res.json()
-      } else if (task.type === "scanTransfers") {
-        const { mint, rpcUrl } = task.params
-        // placeholder: call a scanTransfer endpoint
-        const res = await fetch(`${rpcUrl}/transfers/${mint}`)
-        result = await res.json()
-      } else {
-        throw new Error("Unknown task type")
-      }
-      task.params.result = result
-      task.status = "done"
-    } catch {
-      task.status = "error"
+    const job = this.tracker.get(id)
+    if (!job || !isHubJob(job)) return
+    if (job.status === JobStatus.Completed || job.status === JobStatus.Running) return toHubTask(job)
+
+    const type = toHubTask(job).type
+    if (!this.registry.has(type)) {
+      return toHubTask(this.tracker.update(id, { status: JobStatus.Failed, error: `Unknown task type: ${type}` }))
+    }
+
+    if (job.status === JobStatus.Failed) {
+      // Reset attempts so the rerun is not cut short by the previous run's retries
+      this.tracker.update(id, { status: JobStatus.Pending, attempts: 0 })
     }
-    return task
+    this.runner.schedule(id)
+    return toHubTask(await this.runner.waitFor(id))
+  }
+
+  /**
+   * Cancel a pending or running task; it settles as "error" with the given reason
+   */
+  cancelTask(id: string, reason?: string): boolean {
+    const job = this.tracker.get(id)
+    if (!job || !isHubJob(job)) return false
+    return this.runner.cancel(id, reason)
+  }
+
+  /**
+   * Run a DAG of hub tasks and resolve once every node has settled
+   */
+  runPipeline(def: PipelineDefinition): Promise<PipelineRun> {
+    return this.pipelines.run(def)
+  }
+
+  /**
+   * Start a DAG run in the background; poll getPipelineRun for progress.
+   * With `resumeFrom`, completed nodes of that run are reused and only failed
+   * or skipped ones run again. Returns undefined if that run is unknown.
+   */
+  startPipeline(def: PipelineDefinition, resumeFrom?: string): PipelineRun | undefined {
+    if (resumeFrom === undefined) return this.pipelines.start(def)
+    const previous = this.pipelines.get(resumeFrom)
+    return previous && this.pipelines.start(previous.definition, previous)
+  }
+
+  /**
+   * Rerun a previous pipeline run from its failed node(s), reusing completed outputs
+   */
+  async resumePipeline(runId: string): Promise<PipelineRun | undefined> {
+    const previous = this.pipelines.get(runId)
+    if (!previous) return
+    return this.pipelines.resume(previous)
+  }
+
+  /** Runs are tracker jobs, so they outlive the process that started them */
+  getPipelineRun(runId: string): PipelineRun | undefined {
+    return this.pipelines.get(runId)
   }
 }
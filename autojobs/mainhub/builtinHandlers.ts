@@ -0,0 +1,211 @@
+import fetch from "node-fetch"
+import { randomUUID } from "crypto"
+import { z } from "zod"
+import { TypeStruct } from "../typestruct/typestruct"
+import { HubTaskHandler } from "./taskRegistry"
+import { calculateTokenMetrics, TransferEvent } from "./insight-engine/analyzeTokenActivity"
+import { SolanaRpcTransferProvider, transferProviderFromEnv } from "./insight-engine/transferProviders"
+import { RiskScoring } from "../assistkit/riskScoring"
+import { SolanaWalletActivitySource } from "../assistkit/walletActivity"
+import { SendPack } from "../sendpack/sendpack"
+import { ShiftcoreService } from "../../pulsecore/shiftcore/shiftcoreService"
+import { ShiftcoreAnalyzer } from "../../pulsecore/shiftcore/shiftcoreAnalyzer"
+import { PulseCoreService } from "../../pulsecore/pulseCoreService"
+import { PulseCoreAnalyzer } from "../../pulsecore/pulseCoreAnalyzer"
+import { DetectionEyeService } from "../../neurobase/ai_thinkrunner/detectioneye/detectionEyeService"
+import { DexLogic } from "../../tokenmind/dexlogic/dexlogic"
+
+/** RPC endpoint from params, falling back to SOLANA_RPC_ENDPOINT */
+const rpcOf = (rpcUrl?: string): string => {
+  const url = rpcUrl ?? process.env.SOLANA_RPC_ENDPOINT
+  if (!url) throw new Error("rpcUrl param or SOLANA_RPC_ENDPOINT is required")
+  return url
+}
+
+const mintParams = z.object({
+  mint: z.string().min(32).max(44),
+  rpcUrl: z.string().url().optional(),
+  limit: z.number().int().positive().max(1000).default(100),
+})
+
+const transferSchema = z.object({
+  signature: z.string(),
+  timestamp: z.number(),
+  sender: z.string(),
+  recipient: z.string(),
+  amount: z.number(),
+  mint: z.string().optional(),
+  slot: z.number().int().optional(),
+})
+
+const anomalyConfigSchema = z.object({
+  rules: z
+    .record(
+      z.object({
+        enabled: z.boolean().optional(),
+        severity: z.enum(["low", "medium", "high"]).optional(),
+        params: z.record(z.number()).optional(),
+      })
+    )
+    .optional(),
+  maxEvidence: z.number().int().positive().optional(),
+  maxFindingsPerRule: z.number().int().positive().optional(),
+})
+
+const NETWORK_RETRY = { maxAttempts: 3, backoffMs: 1_000 }
+
+const handler = <P, R>(h: HubTaskHandler<P, R>): HubTaskHandler<P, R> => h
+
+/**
+ * Task types every MainHubService starts with
+ */
+export function builtinHandlers(): HubTaskHandler[] {
+  return [
+    handler({
+      type: "fetchPrice",
+      description: "Fetch the latest price for a symbol from a price API",
+      params: new TypeStruct(z.object({ symbol: z.string().min(1), apiUrl: z.string().url() })),
+      timeoutMs: 10_000,
+      retry: NETWORK_RETRY,
+      run: async ({ symbol, apiUrl }) => {
+        const res = await fetch(`${apiUrl}/price/${symbol}`)
+        if (!res.ok) throw new Error(`HTTP ${res.status}: ${res.statusText}`)
+        return res.json()
+      },
+    }),
+    handler({
+      type: "scanTransfers",
+      description: "Call a remote scanTransfer endpoint for a mint",
+      params: new TypeStruct(z.object({ mint: z.string().min(1), rpcUrl: z.string().url() })),
+      timeoutMs: 30_000,
+      retry: NETWORK_RETRY,
+      run: async ({ mint, rpcUrl }) => {
+        const res = await fetch(`${rpcUrl}/transfers/${mint}`)
+        if (!res.ok) throw new Error(`HTTP ${res.status}: ${res.statusText}`)
+        return res.json()
+      },
+    }),
+    handler({
+      type: "fetchTransfers",
+      description: "Fetch a mint's SPL transfers via rpcUrl, else the provider configured in the environment",
+      params: new TypeStruct(mintParams.extend({ before: z.string().optional(), until: z.string().optional() })),
+      timeoutMs: 120_000,
+      retry: NETWORK_RETRY,
+      run: ({ mint, rpcUrl, limit, before, until }): Promise<TransferEvent[]> =>
+        (rpcUrl ? new SolanaRpcTransferProvider(rpcUrl) : transferProviderFromEnv()).fetchTransfers(mint, {
+          limit,
+          before,
+          until,
+        }),
+    }),
+    handler({
+      type: "tokenMetrics",
+      description: "Compute activity metrics and structured anomaly findings from transfers",
+      params: new TypeStruct(z.object({ transfers: z.array(transferSchema), anomalies: anomalyConfigSchema.optional() })),
+      run: ({ transfers, anomalies }) => calculateTokenMetrics(transfers, anomalies),
+    }),
+    handler({
+      type: "riskScore",
+      description: "Score a wallet from on-chain heuristics with a per-factor breakdown",
+      params: new TypeStruct(
+        z.object({
+          address: z.string().min(32).max(44),
+          rpcUrl: z.string().url().optional(),
+          signatureLimit: z.number().int().positive().max(5000).default(500),
+          weights: z
+            .object({
+              walletAge: z.number().nonnegative(),
+              counterpartyConcentration: z.number().nonnegative(),
+              freshMints: z.number().nonnegative(),
+              roundTrips: z.number().nonnegative(),
+              burstActivity: z.number().nonnegative(),
+              knownBadProximity: z.number().nonnegative(),
+            })
+            .partial()
+            .optional(),
+          knownBad: z.array(z.string()).max(10_000).default([]),
+        })
+      ),
+      timeoutMs: 180_000,
+      retry: NETWORK_RETRY,
+      run: ({ address, rpcUrl, signatureLimit, weights, knownBad }) =>
+        new RiskScoring(new SolanaWalletActivitySource(rpcOf(rpcUrl), { signatureLimit }), { weights, knownBad })
+          .compute(address),
+    }),
+    handler({
+      type: "sendPack",
+      description: "Deliver a payload through SendPack",
+      params: new TypeStruct(
+        z.object({
+          endpoint: z.string().url(),
+          id: z.string().min(1).optional(),
+          payload: z.record(z.unknown()).default({}),
+        })
+      ),
+      timeoutMs: 60_000,
+      run: async ({ endpoint, id, payload }) => {
+        const sender = new SendPack(endpoint)
+        const result = await sender.send(sender.create(id ?? randomUUID(), payload))
+        if (!result.success) throw new Error(result.error ?? `SendPack failed with status ${result.status}`)
+        return result
+      },
+    }),
+    handler({
+      type: "shiftcoreAnalyze",
+      description: "Shiftcore transfer summary (volume, participants, spikes) for a mint",
+      params: new TypeStruct(mintParams),
+      timeoutMs: 120_000,
+      retry: NETWORK_RETRY,
+      run: async ({ mint, rpcUrl, limit }, ctx) => {
+        const records = await new ShiftcoreService(rpcOf(rpcUrl)).fetchTransfers(mint, limit)
+        ctx.progress(80)
+        return { summary: new ShiftcoreAnalyzer().summarize(records), transfers: records.length }
+      },
+    }),
+    handler({
+      type: "pulsecoreAnalyze",
+      description: "PulseCore transfer-rate and supply analysis for a mint",
+      params: new TypeStruct(mintParams.extend({ concurrency: z.number().int().min(1).max(20).optional() })),
+      timeoutMs: 180_000,
+      retry: NETWORK_RETRY,
+      run: async ({ mint, rpcUrl, limit, concurrency }, ctx) => {
+        const points = await new PulseCoreService(rpcOf(rpcUrl)).fetch(mint, { limit, concurrency })
+        ctx.progress(80)
+        return { points: points.length, analysis: points.length ? new PulseCoreAnalyzer().analyze(points) : null }
+      },
+    }),
+    handler({
+      type: "detectAnomalies",
+      description: "DetectionEye large-transfer detection for a mint",
+      params: new TypeStruct(mintParams.extend({ threshold: z.number().positive().default(1_000_000) })),
+      timeoutMs: 120_000,
+      retry: NETWORK_RETRY,
+      run: async ({ mint, rpcUrl, limit, threshold }, ctx) => {
+        const service = new DetectionEyeService(rpcOf(rpcUrl))
+        const events = await service.fetchTransfers(mint, limit)
+        ctx.progress(80)
+        return { anomalies: service.detectAnomalies(events, threshold) }
+      },
+    }),
+    handler({
+      type: "dexSpread",
+      description: "DexLogic spread and side VWAPs for a market symbol",
+      params: new TypeStruct(z.object({ symbol: z.string().min(1), apiBase: z.string().url() })),
+      timeoutMs: 15_000,
+      retry: NETWORK_RETRY,
+      run: ({ symbol, apiBase }) => new DexLogic(apiBase).computeSpread(symbol),
+    }),
+    handler({
+      type: "dexArbitrage",
+      description: "DexLogic mid-price divergence across symbol pairs",
+      params: new TypeStruct(
+        z.object({
+          apiBase: z.string().url(),
+          pairs: z.array(z.tuple([z.string().min(1), z.string().min(1)])).min(1).max(50),
+        })
+      ),
+      timeoutMs: 60_000,
+      run: ({ apiBase, pairs }) => new DexLogic(apiBase).detectArbitrage(pairs),
+    }),
+  ]
+}
@@ -1,12 +1,21 @@
 
-import axios from "axios"
+import { TransferProvider, TransferQuery, transferProviderFromEnv } from "./transferProviders"
+import { AnomalyConfig, AnomalyEngine, AnomalyFinding } from "./anomalyRules"
 
 export interface TransferEvent {
   signature: string
+  /**
+   * Block time in Unix ms. Before transfer providers this was Unix seconds (the raw
+   * Helius value); multiply stored or hand-built seconds by 1000 before analysis.
+   */
   timestamp: number
   sender: string
   recipient: string
   amount: number
+  /** Token mint, when the source reports it */
+  mint?: string
+  /** Slot of the transaction, when the source reports it; orders same-second transfers */
+  slot?: number
 }
 
 export interface TokenMetrics {
@@ -14,55 +23,36 @@ export interface TokenMetrics {
   uniqueSenders: number
   transactionCount: number
   activityScore: number
-  anomalyFlags: string[]
+  anomalyFlags: AnomalyFinding[]
 }
 
-export async function fetchTokenTransfers(tokenAddress: string): Promise<TransferEvent[]> {
-  const url = `https://api.helius.xyz/v0/addresses/${tokenAddress}/transactions?api-key=YOUR_API_KEY&limit=100`
-
-  const response = await axios.get(url)
-  const data = response.data as any[]
-
-  return data
-    .filter(tx => tx.tokenTransfers && tx.tokenTransfers.length > 0)
-    .map(tx => ({
-      signature: tx.signature,
-      timestamp: tx.timestamp,
-      sender: tx.tokenTransfers[0].fromUserAccount,
-      recipient: tx.tokenTransfers[0].toUserAccount,
-      amount: tx.tokenTransfers[0].tokenAmount.uiAmount,
-    }))
+/**
+ * Every transfer of a token's recent transactions (timestamps in Unix ms).
+ * Uses the provider configured in the environment unless one is given.
+ */
+export async function fetchTokenTransfers(
+  tokenAddress: string,
+  provider: TransferProvider = transferProviderFromEnv(),
+  query?: TransferQuery
+): Promise<TransferEvent[]> {
+  return provider.fetchTransfers(tokenAddress, query)
 }
 
-export function detectSuspiciousPatterns(transfers: TransferEvent[]): string[] {
-  const flags: string[] = []
-  const senderMap: Record<string, number> = {}
-
-  for (const tx of transfers) {
-    senderMap[tx.sender] = (senderMap[tx.sender] || 0) + 1
-  }
-
-  const frequentSenders = Object.values(senderMap).filter(count => count > 5)
-  if (frequentSenders.length > 3) {
-    flags.push("RepeatedSenders")
-  }
-
-  const recent = transfers.slice(-10)
-  const recentVolume = recent.reduce((acc, tx) => acc + tx.amount, 0)
-  if (recentVolume > 1_000_000) {
-    flags.push("HighRecentVolume")
-  }
-
-  return flags
+/**
+ * Structured anomaly findings for a batch of transfers, from the built-in
+ * rules with optional threshold/severity overrides
+ */
+export function detectSuspiciousPatterns(transfers: TransferEvent[], config?: AnomalyConfig): AnomalyFinding[] {
+  return new AnomalyEngine(config).detect(transfers)
 }
 
-export function calculateTokenMetrics(transfers: TransferEvent[]): TokenMetrics {
+export function calculateTokenMetrics(transfers: TransferEvent[], anomalies?: AnomalyConfig): TokenMetrics {
   const totalVolume = transfers.reduce((acc, tx) => acc + tx.amount, 0)
   const uniqueSenders = new Set(transfers.map(tx => tx.sender)).size
   const transactionCount = transfers.length
   const activityScore = Math.round((totalVolume * 0.4 + uniqueSenders * 0.6) / 100)
 
-  const anomalyFlags = detectSuspiciousPatterns(transfers)
+  const anomalyFlags = detectSuspiciousPatterns(transfers, anomalies)
 
   return {
     totalVolume,
@@ -73,7 +63,11 @@ export function calculateTokenMetrics(transfers: TransferEvent[]): TokenMetrics
   }
 }
 
-export async function analyzeTokenBehavior(tokenAddress: string): Promise<TokenMetrics> {
-  const transfers = await fetchTokenTransfers(tokenAddress)
-  return calculateTokenMetrics(transfers)
+export async function analyzeTokenBehavior(
+  tokenAddress: string,
+  provider?: TransferProvider,
+  anomalies?: AnomalyConfig
+): Promise<TokenMetrics> {
+  const transfers = await fetchTokenTransfers(tokenAddress, provider)
+  return calculateTokenMetrics(transfers, anomalies)
 }
\ No newline at end of file
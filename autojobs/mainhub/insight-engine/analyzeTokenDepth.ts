@@ -1,29 +1,193 @@
 
-import { Connection, PublicKey, ParsedAccountData } from "@solana/web3.js"
+/** [price, size] as returned by the DEX order book API */
+export type BookLevel = [number, number]
+
+export interface OrderBook {
+  /** Best (highest) first */
+  bids: BookLevel[]
+  /** Best (lowest) first */
+  asks: BookLevel[]
+}
+
+export type OrderSide = "buy" | "sell"
+
+/** Size and quote notional resting on one side of the book */
+export interface SideDepth {
+  size: number
+  notional: number
+  levels: number
+}
+
+/** Liquidity within ±percent of mid, per side */
+export interface DepthBand {
+  percent: number
+  bid: SideDepth
+  ask: SideDepth
+}
 
 export interface DepthMetrics {
   midPrice: number
   spreadPercent: number
+  bestBid: number
+  bestAsk: number
+  bidDepth: SideDepth
+  askDepth: SideDepth
+  /** Quote notional of both sides over the fetched levels */
   totalDepth: number
+  bands: DepthBand[]
+}
+
+export interface FillSimulation {
+  side: OrderSide
+  /** Requested base size */
+  requested: number
+  filled: number
+  /** Size left over when the book runs out */
+  unfilled: number
+  complete: boolean
+  averagePrice: number
+  /** Price of the last level touched */
+  worstPrice: number
+  /** Average fill vs. the best price on the side taken */
+  slippageBps: number
+  /** Average fill vs. mid */
+  priceImpactBps: number
+  levelsConsumed: number
+  fills: Array<{ price: number; size: number }>
+  cost: number
+}
+
+export interface TokenDepthOptions {
+  /** Defaults to DEX_API_URL */
+  apiUrl?: string
+  /** ±% of mid for depth bands (default: [0.5, 1, 2, 5]) */
+  bands?: number[]
+}
+
+const DEFAULT_BANDS = [0.5, 1, 2, 5]
+
+/** Drop empty/invalid levels and order each side best first */
+export function normalizeBook(book: OrderBook): OrderBook {
+  const valid = (levels: BookLevel[]) =>
+    (levels ?? []).filter(([price, size]) => Number.isFinite(price) && price > 0 && Number.isFinite(size) && size > 0)
+  return {
+    bids: valid(book.bids).sort((a, b) => b[0] - a[0]),
+    asks: valid(book.asks).sort((a, b) => a[0] - b[0]),
+  }
+}
+
+function sideDepth(levels: BookLevel[]): SideDepth {
+  return levels.reduce(
+    (acc, [price, size]) => ({ size: acc.size + size, notional: acc.notional + price * size, levels: acc.levels + 1 }),
+    { size: 0, notional: 0, levels: 0 }
+  )
+}
+
+const midOf = ({ bids, asks }: OrderBook): number => {
+  const bestBid = bids[0]?.[0] ?? 0
+  const bestAsk = asks[0]?.[0] ?? 0
+  if (bestBid && bestAsk) return (bestBid + bestAsk) / 2
+  return bestBid || bestAsk
+}
+
+/**
+ * Mid, spread, per-side depth and depth within ±X% of mid for a book. Sides
+ * are measured separately; nothing is summed across bids and asks except
+ * `totalDepth`.
+ */
+export function depthMetrics(book: OrderBook, bands: number[] = DEFAULT_BANDS): DepthMetrics {
+  const { bids, asks } = normalizeBook(book)
+  const bestBid = bids[0]?.[0] ?? 0
+  const bestAsk = asks[0]?.[0] ?? 0
+  const mid = midOf({ bids, asks })
+  const spread = bestAsk && bestBid ? ((bestAsk - bestBid) / mid) * 100 : 0
+  const bidDepth = sideDepth(bids)
+  const askDepth = sideDepth(asks)
+
+  return {
+    midPrice: mid,
+    spreadPercent: Number(spread.toFixed(2)),
+    bestBid,
+    bestAsk,
+    bidDepth,
+    askDepth,
+    totalDepth: bidDepth.notional + askDepth.notional,
+    bands: bands.map(percent => ({
+      percent,
+      bid: sideDepth(bids.filter(([price]) => price >= mid * (1 - percent / 100))),
+      ask: sideDepth(asks.filter(([price]) => price <= mid * (1 + percent / 100))),
+    })),
+  }
+}
+
+/**
+ * Walk one side of the book for a market order of `size` (base units): buys
+ * take asks, sells hit bids
+ */
+export function simulateFill(book: OrderBook, side: OrderSide, size: number): FillSimulation {
+  if (!Number.isFinite(size) || size <= 0) throw new Error(`Order size must be positive, got ${size}`)
+  const normalized = normalizeBook(book)
+  const levels = side === "buy" ? normalized.asks : normalized.bids
+  const mid = midOf(normalized)
+
+  const fills: Array<{ price: number; size: number }> = []
+  let remaining = size
+  let cost = 0
+  for (const [price, available] of levels) {
+    if (remaining <= 0) break
+    const take = Math.min(available, remaining)
+    fills.push({ price, size: take })
+    cost += take * price
+    remaining -= take
+  }
+
+  const filled = size - remaining
+  const averagePrice = filled > 0 ? cost / filled : 0
+  const best = levels[0]?.[0] ?? 0
+  // Positive means worse than the reference for the taker on either side
+  const bps = (reference: number) =>
+    filled > 0 && reference > 0 ? ((side === "buy" ? averagePrice - reference : reference - averagePrice) / reference) * 10_000 : 0
+
+  return {
+    side,
+    requested: size,
+    filled,
+    unfilled: remaining,
+    complete: remaining <= 0,
+    averagePrice,
+    worstPrice: fills[fills.length - 1]?.price ?? 0,
+    slippageBps: bps(best),
+    priceImpactBps: bps(mid),
+    levelsConsumed: fills.length,
+    fills,
+    cost,
+  }
 }
 
 export class TokenDepth {
-  private conn = new Connection(process.env.SOLANA_RPC_ENDPOINT!, "confirmed")
+  private readonly apiUrl: string
+  private readonly bands: number[]
 
-  async getDepth(mint: string, levels = 10): Promise<DepthMetrics> {
-    const res = await fetch(`${process.env.DEX_API_URL}/markets/${mint}/orderbook?depth=${levels}`)
-    if (!res.ok) throw new Error(res.statusText)
-    const { bids, asks } = await res.json() as { bids: [number, number][]; asks: [number, number][] }
+  constructor(opts: TokenDepthOptions = {}) {
+    const apiUrl = opts.apiUrl ?? process.env.DEX_API_URL
+    if (!apiUrl) throw new Error("DEX API URL is required (apiUrl or DEX_API_URL)")
+    this.apiUrl = apiUrl.replace(/\/+$/, "")
+    this.bands = opts.bands ?? DEFAULT_BANDS
+  }
 
-    const [bestBid] = bids[0] || [0, 0]
-    const [bestAsk] = asks[0] || [0, 0]
-    const mid = (bestBid + bestAsk) / 2
-    const spread = bestAsk && bestBid ? ((bestAsk - bestBid) / mid) * 100 : 0
+  async fetchBook(mint: string, levels = 10): Promise<OrderBook> {
+    const res = await fetch(`${this.apiUrl}/markets/${mint}/orderbook?depth=${levels}`)
+    if (!res.ok) throw new Error(res.statusText)
+    const { bids, asks } = await res.json() as OrderBook
+    return normalizeBook({ bids, asks })
+  }
 
-    const depth = [...bids, ...asks]
-      .slice(0, levels)
-      .reduce((sum, [price, size]) => sum + price * size, 0)
+  async getDepth(mint: string, levels = 10): Promise<DepthMetrics> {
+    return depthMetrics(await this.fetchBook(mint, levels), this.bands)
+  }
 
-    return { midPrice: mid, spreadPercent: Number(spread.toFixed(2)), totalDepth: depth }
+  /** Simulate a market order of `size` base units against the live book */
+  async simulate(mint: string, side: OrderSide, size: number, levels = 50): Promise<FillSimulation> {
+    return simulateFill(await this.fetchBook(mint, levels), side, size)
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,461 @@
+import type { TransferEvent } from "./analyzeTokenActivity"
+
+export type AnomalySeverity = "low" | "medium" | "high"
+
+/** One occurrence of a rule's pattern */
+export interface AnomalyFinding {
+  rule: string
+  severity: AnomalySeverity
+  explanation: string
+  /** Signatures of the transfers that make up the pattern */
+  evidence: string[]
+  details: Record<string, number | string>
+}
+
+/** What a rule reports before the engine attaches name, severity and evidence limits */
+export interface RuleMatch {
+  explanation: string
+  signatures: string[]
+  details?: Record<string, number | string>
+}
+
+/**
+ * A declarative anomaly rule: default thresholds and severity, plus a
+ * detector over transfers sorted oldest first
+ */
+export interface AnomalyRule<P extends Record<string, number> = Record<string, number>> {
+  name: string
+  /** What the pattern means, independent of any match */
+  explanation: string
+  severity: AnomalySeverity
+  defaults: P
+  detect(transfers: TransferEvent[], params: P): RuleMatch[]
+}
+
+export interface AnomalyRuleOverride {
+  enabled?: boolean
+  severity?: AnomalySeverity
+  /** Threshold overrides; unknown keys are rejected */
+  params?: Record<string, number>
+}
+
+export interface AnomalyConfig {
+  rules?: Record<string, AnomalyRuleOverride>
+  /** Max evidence signatures per finding (default: 25) */
+  maxEvidence?: number
+  /** Max findings per rule (default: 20) */
+  maxFindingsPerRule?: number
+}
+
+const MINUTE = 60_000
+const HOUR = 60 * MINUTE
+
+const uniq = (values: string[]) => Array.from(new Set(values))
+const signaturesOf = (transfers: TransferEvent[]) => uniq(transfers.map(t => t.signature))
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = sorted.length >> 1
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+const sameAmount = (a: number, b: number, tolerance: number) =>
+  Math.abs(a - b) <= tolerance * Math.max(Math.abs(a), Math.abs(b))
+
+/**
+ * Per-address sliding window over transfers: reports each address whose
+ * distinct counterparties within `windowMs` reach `min`, once per address,
+ * at its widest window
+ */
+function counterpartyBursts(
+  transfers: TransferEvent[],
+  key: (t: TransferEvent) => string,
+  counterparty: (t: TransferEvent) => string,
+  windowMs: number,
+  min: number
+): Array<{ address: string; transfers: TransferEvent[]; counterparties: number }> {
+  const byAddress = new Map<string, TransferEvent[]>()
+  for (const t of transfers) {
+    const list = byAddress.get(key(t)) ?? []
+    list.push(t)
+    byAddress.set(key(t), list)
+  }
+
+  const hits: Array<{ address: string; transfers: TransferEvent[]; counterparties: number }> = []
+  for (const [address, list] of byAddress) {
+    if (list.length < min) continue
+    let best: { start: number; end: number; count: number } | undefined
+    const counts = new Map<string, number>()
+    for (let start = 0, end = 0; end < list.length; end++) {
+      const cp = counterparty(list[end])
+      counts.set(cp, (counts.get(cp) ?? 0) + 1)
+      while (list[end].timestamp - list[start].timestamp > windowMs) {
+        const old = counterparty(list[start++])
+        const n = counts.get(old)! - 1
+        if (n) counts.set(old, n)
+        else counts.delete(old)
+      }
+      if (counts.size >= min && (!best || counts.size > best.count)) best = { start, end, count: counts.size }
+    }
+    if (best) hits.push({ address, transfers: list.slice(best.start, best.end + 1), counterparties: best.count })
+  }
+  return hits.sort((a, b) => b.counterparties - a.counterparties)
+}
+
+const repeatedSenders: AnomalyRule<{ minTransfers: number; minSenders: number }> = {
+  name: "repeatedSenders",
+  explanation: "Several wallets each send the token many times, typical of bots or coordinated trading",
+  severity: "low",
+  defaults: { minTransfers: 6, minSenders: 4 },
+  detect(transfers, { minTransfers, minSenders }) {
+    const bySender = new Map<string, TransferEvent[]>()
+    for (const t of transfers) bySender.set(t.sender, [...(bySender.get(t.sender) ?? []), t])
+    const frequent = Array.from(bySender.values()).filter(list => list.length >= minTransfers)
+    if (frequent.length < minSenders) return []
+    return [
+      {
+        explanation: `${frequent.length} senders made at least ${minTransfers} transfers each`,
+        signatures: signaturesOf(frequent.flat()),
+        details: { senders: frequent.length },
+      },
+    ]
+  },
+}
+
+const highRecentVolume: AnomalyRule<{ recentTransfers: number; minVolume: number }> = {
+  name: "highRecentVolume",
+  explanation: "The most recent transfers move an unusually large amount",
+  severity: "medium",
+  defaults: { recentTransfers: 10, minVolume: 1_000_000 },
+  detect(transfers, { recentTransfers, minVolume }) {
+    const recent = transfers.slice(-recentTransfers)
+    const volume = recent.reduce((acc, t) => acc + t.amount, 0)
+    if (volume < minVolume) return []
+    return [
+      {
+        explanation: `Last ${recent.length} transfers moved ${volume}`,
+        signatures: signaturesOf(recent),
+        details: { volume },
+      },
+    ]
+  },
+}
+
+const washTrading: AnomalyRule<{ windowMs: number; amountTolerance: number; maxHops: number; minCycles: number }> = {
+  name: "washTrading",
+  explanation: "Tokens travel in a loop (A→B→A, or A→B→C→A) with about the same amount, inflating volume without a change of ownership",
+  severity: "high",
+  defaults: { windowMs: HOUR, amountTolerance: 0.05, maxHops: 3, minCycles: 1 },
+  detect(transfers, { windowMs, amountTolerance, maxHops, minCycles }) {
+    const used = new Set<number>()
+    const cycles = new Map<string, TransferEvent[][]>()
+
+    // Depth-first from each unused leg, following later legs out of the current recipient
+    const extend = (path: number[]): number[] | undefined => {
+      const first = transfers[path[0]]
+      const last = transfers[path[path.length - 1]]
+      for (let j = path[path.length - 1] + 1; j < transfers.length; j++) {
+        const next = transfers[j]
+        if (next.timestamp - first.timestamp > windowMs) break
+        if (used.has(j) || next.sender !== last.recipient || !sameAmount(next.amount, first.amount, amountTolerance)) continue
+        if (next.recipient === first.sender) return [...path, j]
+        const visited = path.map(i => transfers[i].sender)
+        if (path.length + 1 < maxHops && !visited.includes(next.recipient)) {
+          const found = extend([...path, j])
+          if (found) return found
+        }
+      }
+      return undefined
+    }
+
+    transfers.forEach((t, i) => {
+      if (used.has(i) || t.sender === t.recipient) return
+      const cycle = extend([i])
+      if (!cycle) return
+      cycle.forEach(j => used.add(j))
+      const legs = cycle.map(j => transfers[j])
+      const loop = uniq(legs.map(l => l.sender)).sort().join("→")
+      cycles.set(loop, [...(cycles.get(loop) ?? []), legs])
+    })
+
+    return Array.from(cycles)
+      .filter(([, found]) => found.length >= minCycles)
+      .map(([loop, found]) => {
+        const wallets = found[0].map(l => l.sender)
+        return {
+          explanation: `${found.length} round trip(s) through ${wallets.join(" → ")} → ${wallets[0]}`,
+          signatures: signaturesOf(found.flat()),
+          details: { cycles: found.length, hops: found[0].length, wallets: loop },
+        }
+      })
+  },
+}
+
+const fanOut: AnomalyRule<{ windowMs: number; minRecipients: number }> = {
+  name: "fanOut",
+  explanation: "One wallet distributes to many recipients in a short time, as in airdrop farming or splitting funds",
+  severity: "medium",
+  defaults: { windowMs: 10 * MINUTE, minRecipients: 10 },
+  detect(transfers, { windowMs, minRecipients }) {
+    return counterpartyBursts(transfers, t => t.sender, t => t.recipient, windowMs, minRecipients).map(hit => ({
+      explanation: `${hit.address} sent to ${hit.counterparties} wallets within ${Math.round(windowMs / 1000)}s`,
+      signatures: signaturesOf(hit.transfers),
+      details: { address: hit.address, recipients: hit.counterparties },
+    }))
+  },
+}
+
+const fanIn: AnomalyRule<{ windowMs: number; minSenders: number }> = {
+  name: "fanIn",
+  explanation: "Many wallets send to one wallet in a short time, as when sybil wallets consolidate",
+  severity: "medium",
+  defaults: { windowMs: 10 * MINUTE, minSenders: 10 },
+  detect(transfers, { windowMs, minSenders }) {
+    return counterpartyBursts(transfers, t => t.recipient, t => t.sender, windowMs, minSenders).map(hit => ({
+      explanation: `${hit.address} received from ${hit.counterparties} wallets within ${Math.round(windowMs / 1000)}s`,
+      signatures: signaturesOf(hit.transfers),
+      details: { address: hit.address, senders: hit.counterparties },
+    }))
+  },
+}
+
+const dustAttack: AnomalyRule<{ maxAmount: number; medianRatio: number; minRecipients: number }> = {
+  name: "dustAttack",
+  explanation: "A wallet sends negligible amounts to many wallets, usually to plant addresses in their history",
+  severity: "medium",
+  // maxAmount 0 disables the absolute cut; dust is then relative to the median transfer
+  defaults: { maxAmount: 0, medianRatio: 0.001, minRecipients: 5 },
+  detect(transfers, { maxAmount, medianRatio, minRecipients }) {
+    const cutoff = Math.max(maxAmount, median(transfers.map(t => t.amount)) * medianRatio)
+    if (cutoff <= 0) return []
+    const dust = new Map<string, TransferEvent[]>()
+    for (const t of transfers) {
+      if (t.amount > 0 && t.amount <= cutoff) dust.set(t.sender, [...(dust.get(t.sender) ?? []), t])
+    }
+    return Array.from(dust)
+      .map(([sender, list]) => ({ sender, list, recipients: new Set(list.map(t => t.recipient)).size }))
+      .filter(d => d.recipients >= minRecipients)
+      .sort((a, b) => b.recipients - a.recipients)
+      .map(d => ({
+        explanation: `${d.sender} sent dust (≤ ${cutoff}) to ${d.recipients} wallets`,
+        signatures: signaturesOf(d.list),
+        details: { address: d.sender, recipients: d.recipients, cutoff },
+      }))
+  },
+}
+
+const newWalletSwarm: AnomalyRule<{ windowMs: number; minWallets: number; minShare: number; warmupTransfers: number }> = {
+  name: "newWalletSwarm",
+  explanation: "Many never-before-seen wallets appear at once, a sign of sybil or bot wallets",
+  severity: "high",
+  // The first transfers only establish which wallets are already known
+  defaults: { windowMs: 15 * MINUTE, minWallets: 10, minShare: 0.6, warmupTransfers: 20 },
+  detect(transfers, { windowMs, minWallets, minShare, warmupTransfers }) {
+    const seen = new Set<string>()
+    const debut: Array<{ at: number; wallet: string; transfer: TransferEvent }> = []
+    transfers.forEach((t, i) => {
+      for (const wallet of [t.sender, t.recipient]) {
+        if (seen.has(wallet)) continue
+        seen.add(wallet)
+        if (i >= warmupTransfers) debut.push({ at: t.timestamp, wallet, transfer: t })
+      }
+    })
+
+    const matches: RuleMatch[] = []
+    let windowStart = 0
+    for (let start = 0; start < debut.length; ) {
+      let end = start
+      while (end + 1 < debut.length && debut[end + 1].at - debut[start].at <= windowMs) end++
+      const wallets = end - start + 1
+      if (wallets >= minWallets) {
+        const from = debut[start].at
+        const to = debut[end].at
+        while (windowStart < transfers.length && transfers[windowStart].timestamp < from) windowStart++
+        const participants = new Set<string>()
+        for (let i = windowStart; i < transfers.length && transfers[i].timestamp <= to; i++) {
+          participants.add(transfers[i].sender).add(transfers[i].recipient)
+        }
+        const share = wallets / Math.max(participants.size, wallets)
+        if (share >= minShare) {
+          matches.push({
+            explanation: `${wallets} new wallets appeared within ${Math.round((to - from) / 1000)}s (${Math.round(share * 100)}% of participants)`,
+            signatures: signaturesOf(debut.slice(start, end + 1).map(d => d.transfer)),
+            details: { wallets, share: Math.round(share * 1000) / 1000, from, to },
+          })
+          start = end + 1
+          continue
+        }
+      }
+      start++
+    }
+    return matches
+  },
+}
+
+const sandwich: AnomalyRule<{ windowMs: number; amountTolerance: number }> = {
+  name: "sandwich",
+  explanation: "A wallet buys right before another trade and sells the same amount right after it",
+  severity: "high",
+  // Block times have one-second resolution, so the window is a few slots
+  defaults: { windowMs: 5_000, amountTolerance: 0.1 },
+  detect(transfers, { windowMs, amountTolerance }) {
+    const matches: RuleMatch[] = []
+    const used = new Set<number>()
+    for (let i = 0; i < transfers.length; i++) {
+      if (used.has(i)) continue
+      const front = transfers[i]
+      const attacker = front.recipient
+      let victim: number | undefined
+      for (let j = i + 1; j < transfers.length && transfers[j].timestamp - front.timestamp <= windowMs; j++) {
+        const t = transfers[j]
+        if (t.sender !== attacker && t.recipient !== attacker) {
+          // Middle leg must be a different trader in a different transaction
+          if (victim === undefined && t.signature !== front.signature) victim = j
+          continue
+        }
+        if (victim === undefined || t.sender !== attacker || used.has(j)) continue
+        if (t.signature === transfers[victim].signature || !sameAmount(t.amount, front.amount, amountTolerance)) continue
+        used.add(i).add(victim).add(j)
+        matches.push({
+          explanation: `${attacker} bought and sold around ${transfers[victim].recipient} within ${Math.round((t.timestamp - front.timestamp) / 1000)}s`,
+          signatures: [front.signature, transfers[victim].signature, t.signature],
+          details: { address: attacker, victim: transfers[victim].recipient, amount: front.amount },
+        })
+        break
+      }
+    }
+    return matches
+  },
+}
+
+const holderConcentration: AnomalyRule<{ windowMs: number; topHolders: number; minChange: number; minHolders: number }> = {
+  name: "holderConcentration",
+  explanation: "The share held by the top wallets (by net flow over the sample) jumps or drops abruptly",
+  severity: "medium",
+  defaults: { windowMs: HOUR, topHolders: 5, minChange: 0.2, minHolders: 10 },
+  detect(transfers, { windowMs, topHolders, minChange, minHolders }) {
+    if (!transfers.length) return []
+    const balances = new Map<string, number>()
+    const topShare = (): number | undefined => {
+      const positive = Array.from(balances.values()).filter(b => b > 0)
+      if (positive.length < minHolders) return undefined
+      const total = positive.reduce((sum, b) => sum + b, 0)
+      const top = positive.sort((a, b) => b - a).slice(0, topHolders).reduce((sum, b) => sum + b, 0)
+      return total > 0 ? top / total : undefined
+    }
+
+    const matches: RuleMatch[] = []
+    let previous: number | undefined
+    let windowEnd = transfers[0].timestamp + windowMs
+    let window: TransferEvent[] = []
+    const closeWindow = () => {
+      const share = topShare()
+      if (share !== undefined && previous !== undefined && Math.abs(share - previous) >= minChange) {
+        const leaders = new Set(
+          Array.from(balances).sort((a, b) => b[1] - a[1]).slice(0, topHolders).map(([address]) => address)
+        )
+        const moved = window.filter(t => leaders.has(t.sender) || leaders.has(t.recipient))
+        matches.push({
+          explanation: `Top ${topHolders} share went from ${Math.round(previous * 100)}% to ${Math.round(share * 100)}%`,
+          signatures: signaturesOf(moved.length ? moved : window),
+          details: { before: Math.round(previous * 1000) / 1000, after: Math.round(share * 1000) / 1000, at: windowEnd },
+        })
+      }
+      if (share !== undefined) previous = share
+      window = []
+    }
+
+    for (const t of transfers) {
+      while (t.timestamp >= windowEnd) {
+        closeWindow()
+        windowEnd += windowMs
+      }
+      balances.set(t.sender, (balances.get(t.sender) ?? 0) - t.amount)
+      balances.set(t.recipient, (balances.get(t.recipient) ?? 0) + t.amount)
+      window.push(t)
+    }
+    closeWindow()
+    return matches
+  },
+}
+
+/** Built-in rules, in the order findings are reported */
+export const DEFAULT_ANOMALY_RULES: AnomalyRule<any>[] = [
+  washTrading,
+  sandwich,
+  newWalletSwarm,
+  fanOut,
+  fanIn,
+  dustAttack,
+  holderConcentration,
+  repeatedSenders,
+  highRecentVolume,
+]
+
+/**
+ * Runs declarative rules over a batch of transfers. Overrides are validated up
+ * front so a typo in a threshold name fails loudly instead of being ignored.
+ */
+export class AnomalyEngine {
+  private readonly rules: Array<{ rule: AnomalyRule<any>; severity: AnomalySeverity; params: Record<string, number> }>
+  private readonly maxEvidence: number
+  private readonly maxFindings: number
+
+  constructor(config: AnomalyConfig = {}, rules: AnomalyRule<any>[] = DEFAULT_ANOMALY_RULES) {
+    const known = new Map(rules.map(r => [r.name, r]))
+    for (const [name, override] of Object.entries(config.rules ?? {})) {
+      const rule = known.get(name)
+      if (!rule) throw new Error(`Unknown anomaly rule: ${name}`)
+      for (const [key, value] of Object.entries(override.params ?? {})) {
+        if (!(key in rule.defaults)) throw new Error(`Unknown threshold "${key}" for rule ${name}`)
+        if (!Number.isFinite(value)) throw new Error(`Threshold "${key}" for rule ${name} must be a finite number`)
+      }
+    }
+
+    this.rules = rules
+      .filter(rule => config.rules?.[rule.name]?.enabled !== false)
+      .map(rule => {
+        const override = config.rules?.[rule.name] ?? {}
+        return { rule, severity: override.severity ?? rule.severity, params: { ...rule.defaults, ...override.params } }
+      })
+    this.maxEvidence = Math.max(1, config.maxEvidence ?? 25)
+    this.maxFindings = Math.max(1, config.maxFindingsPerRule ?? 20)
+  }
+
+  /**
+   * Findings for transfers in provider order (newest transaction first, transfers
+   * of one transaction in execution order); they are sorted oldest first before
+   * detection. Same-second transactions are ordered by slot when known, otherwise
+   * by reversing their provider order.
+   */
+  detect(transfers: TransferEvent[]): AnomalyFinding[] {
+    const txOrder = new Map<string, number>()
+    for (const t of transfers) {
+      if (!txOrder.has(t.signature)) txOrder.set(t.signature, txOrder.size)
+    }
+    const sorted = transfers
+      .map((t, i) => ({ t, i, tx: txOrder.get(t.signature)! }))
+      .sort(
+        (a, b) =>
+          a.t.timestamp - b.t.timestamp ||
+          (a.t.slot !== undefined && b.t.slot !== undefined ? a.t.slot - b.t.slot : 0) ||
+          b.tx - a.tx ||
+          a.i - b.i
+      )
+      .map(({ t }) => t)
+
+    return this.rules.flatMap(({ rule, severity, params }) =>
+      rule
+        .detect(sorted, params)
+        .slice(0, this.maxFindings)
+        .map(match => ({
+          rule: rule.name,
+          severity,
+          explanation: match.explanation,
+          evidence: match.signatures.slice(0, this.maxEvidence),
+          details: match.details ?? {},
+        }))
+    )
+  }
+}
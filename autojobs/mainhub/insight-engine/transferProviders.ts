@@ -0,0 +1,229 @@
+import axios from "axios"
+import pLimit from "p-limit"
+import { promises as fs } from "fs"
+import {
+  Connection,
+  PublicKey,
+  ParsedInstruction,
+  PartiallyDecodedInstruction,
+  ParsedTransactionWithMeta,
+} from "@solana/web3.js"
+import type { TransferEvent } from "./analyzeTokenActivity"
+
+export interface TransferQuery {
+  /** Max transactions to scan, newest first (default: 100) */
+  limit?: number
+  /** Start scanning before this signature (exclusive) */
+  before?: string
+  /** Stop once this signature is reached (exclusive) */
+  until?: string
+  /** Keep transfers of other mints in the same transactions (default: false) */
+  includeOtherMints?: boolean
+}
+
+/**
+ * Source of SPL token transfers for a mint. Every transfer of a transaction is
+ * returned, newest transaction first, with timestamps in Unix ms.
+ */
+export interface TransferProvider {
+  fetchTransfers(mint: string, query?: TransferQuery): Promise<TransferEvent[]>
+}
+
+const DEFAULT_LIMIT = 100
+
+/**
+ * Helius enhanced transactions API, paged 100 at a time with `before`
+ */
+export class HeliusTransferProvider implements TransferProvider {
+  private readonly baseUrl: string
+
+  constructor(private readonly apiKey: string, opts: { baseUrl?: string } = {}) {
+    if (!apiKey) throw new Error("Helius API key is required")
+    this.baseUrl = (opts.baseUrl ?? "https://api.helius.xyz").replace(/\/+$/, "")
+  }
+
+  async fetchTransfers(mint: string, query: TransferQuery = {}): Promise<TransferEvent[]> {
+    const limit = query.limit ?? DEFAULT_LIMIT
+    const events: TransferEvent[] = []
+    let before = query.before
+    let scanned = 0
+
+    while (scanned < limit) {
+      const pageSize = Math.min(100, limit - scanned)
+      const { data } = await axios.get<any[]>(`${this.baseUrl}/v0/addresses/${mint}/transactions`, {
+        params: { "api-key": this.apiKey, limit: pageSize, before, until: query.until },
+      })
+      if (!Array.isArray(data) || !data.length) break
+      scanned += data.length
+
+      for (const tx of data) {
+        for (const t of tx.tokenTransfers ?? []) {
+          if (!query.includeOtherMints && t.mint !== mint) continue
+          events.push({
+            signature: tx.signature,
+            timestamp: tx.timestamp * 1000,
+            slot: tx.slot,
+            sender: t.fromUserAccount,
+            recipient: t.toUserAccount,
+            // Enhanced API gives a UI amount; older payloads nest it
+            amount: typeof t.tokenAmount === "number" ? t.tokenAmount : Number(t.tokenAmount?.uiAmount ?? 0),
+            mint: t.mint,
+          })
+        }
+      }
+      if (data.length < pageSize) break
+      before = data[data.length - 1].signature
+    }
+    return events
+  }
+}
+
+type AnyInstr = ParsedInstruction | PartiallyDecodedInstruction
+
+/**
+ * Plain Solana JSON-RPC: signature pages of up to 1000 via before/until, then
+ * parsed transactions (top-level and inner instructions).
+ *
+ * Signatures are listed for the mint address, so only transactions that include
+ * the mint account are seen: `transferChecked`, mints, burns and account creation.
+ * Plain `transfer` instructions reference token accounts only and are missed unless
+ * the same transaction touches the mint; use HeliusTransferProvider for full coverage.
+ */
+export class SolanaRpcTransferProvider implements TransferProvider {
+  private readonly conn: Connection
+
+  constructor(rpcUrl: string, private readonly opts: { concurrency?: number } = {}) {
+    this.conn = new Connection(rpcUrl, "confirmed")
+  }
+
+  async fetchTransfers(mint: string, query: TransferQuery = {}): Promise<TransferEvent[]> {
+    let key: PublicKey
+    try {
+      key = new PublicKey(mint)
+    } catch {
+      throw new Error(`Invalid mint address: ${mint}`)
+    }
+    const limit = query.limit ?? DEFAULT_LIMIT
+    const signatures: { signature: string; blockTime?: number | null }[] = []
+    let before = query.before
+
+    while (signatures.length < limit) {
+      const want = Math.min(1000, limit - signatures.length)
+      const page = await this.conn.getSignaturesForAddress(key, { limit: want, before, until: query.until })
+      signatures.push(...page.filter(s => !s.err))
+      if (page.length < want) break
+      before = page[page.length - 1].signature
+    }
+
+    const run = pLimit(Math.max(1, this.opts.concurrency ?? 5))
+    const perTx = await Promise.all(
+      signatures.map(({ signature, blockTime }) =>
+        run(async () => {
+          if (!blockTime) return []
+          try {
+            const tx = await this.conn.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0 })
+            return tx ? tokenTransfersOf(tx, signature, blockTime * 1000) : []
+          } catch (err: any) {
+            console.warn(`[TransferProvider] Error processing ${signature}: ${err?.message ?? err}`)
+            return []
+          }
+        })
+      )
+    )
+    // Promise.all keeps signature order, so output stays newest first
+    return perTx.flat().filter(e => query.includeOtherMints || e.mint === mint)
+  }
+}
+
+/** Every SPL transfer in a parsed transaction, with owners resolved from token balances */
+function tokenTransfersOf(tx: ParsedTransactionWithMeta, signature: string, timestamp: number): TransferEvent[] {
+  const keys = tx.transaction.message.accountKeys.map(k => k.pubkey.toBase58())
+  const accounts = new Map<string, { owner?: string; mint: string; decimals: number }>()
+  for (const b of [...(tx.meta?.preTokenBalances ?? []), ...(tx.meta?.postTokenBalances ?? [])]) {
+    accounts.set(keys[b.accountIndex], { owner: b.owner, mint: b.mint, decimals: b.uiTokenAmount.decimals })
+  }
+
+  const instructions: AnyInstr[] = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap(i => i.instructions),
+  ]
+  const events: TransferEvent[] = []
+  for (const ix of instructions) {
+    if (!("parsed" in ix) || ix.program !== "spl-token") continue
+    const { type, info } = ix.parsed ?? {}
+    if (type !== "transfer" && type !== "transferChecked") continue
+    const source = accounts.get(info.source)
+    const destination = accounts.get(info.destination)
+    const mint = info.mint ?? source?.mint ?? destination?.mint
+    if (!mint) continue
+    const decimals = source?.decimals ?? destination?.decimals ?? 0
+    events.push({
+      signature,
+      timestamp,
+      slot: tx.slot,
+      sender: source?.owner ?? info.authority ?? info.source,
+      recipient: destination?.owner ?? info.destination,
+      amount: info.tokenAmount ? Number(info.tokenAmount.uiAmount) : Number(info.amount) / 10 ** decimals,
+      mint,
+    })
+  }
+  return events
+}
+
+/**
+ * Transfers read from a local JSON array (or NDJSON) of TransferEvents, for
+ * tests and offline analysis. Events should be newest first, like the live
+ * providers; `limit` counts distinct signatures. Timestamps recorded in Unix
+ * seconds, as older captures were, are converted to ms on load.
+ */
+export class FixtureTransferProvider implements TransferProvider {
+  private cache?: Promise<TransferEvent[]>
+
+  constructor(private readonly filePath: string) {}
+
+  async fetchTransfers(mint: string, query: TransferQuery = {}): Promise<TransferEvent[]> {
+    const all = await (this.cache ??= this.load())
+    const limit = query.limit ?? DEFAULT_LIMIT
+    const signatures: string[] = []
+    let started = !query.before
+    const out: TransferEvent[] = []
+
+    for (const event of all) {
+      if (!started) {
+        started = event.signature === query.before
+        continue
+      }
+      if (event.signature === query.before) continue
+      if (event.signature === query.until) break
+      if (signatures[signatures.length - 1] !== event.signature) {
+        if (signatures.length >= limit) break
+        signatures.push(event.signature)
+      }
+      if (query.includeOtherMints || !event.mint || event.mint === mint) out.push(event)
+    }
+    return out
+  }
+
+  private async load(): Promise<TransferEvent[]> {
+    const raw = (await fs.readFile(this.filePath, "utf8")).trim()
+    if (!raw) return []
+    const events: TransferEvent[] = raw.startsWith("[")
+      ? JSON.parse(raw)
+      : raw.split("\n").filter(line => line.trim()).map(line => JSON.parse(line))
+    return events.map(event => ({ ...event, timestamp: toMillis(event.timestamp) }))
+  }
+}
+
+/** Anything below 1e12 (September 2001 in ms) can only be a Unix-seconds block time */
+const toMillis = (timestamp: number): number => (timestamp > 0 && timestamp < 1e12 ? timestamp * 1000 : timestamp)
+
+/**
+ * Provider from the environment: HELIUS_API_KEY, then SOLANA_RPC_ENDPOINT,
+ * then TRANSFER_FIXTURE_PATH
+ */
+export function transferProviderFromEnv(env: NodeJS.ProcessEnv = process.env): TransferProvider {
+  if (env.HELIUS_API_KEY) return new HeliusTransferProvider(env.HELIUS_API_KEY, { baseUrl: env.HELIUS_BASE_URL })
+  if (env.SOLANA_RPC_ENDPOINT) return new SolanaRpcTransferProvider(env.SOLANA_RPC_ENDPOINT)
+  if (env.TRANSFER_FIXTURE_PATH) return new FixtureTransferProvider(env.TRANSFER_FIXTURE_PATH)
+  throw new Error("No transfer provider configured: set HELIUS_API_KEY, SOLANA_RPC_ENDPOINT or TRANSFER_FIXTURE_PATH")
+}
@@ -0,0 +1,363 @@
+import { randomUUID } from "crypto"
+import type { HubTask } from "./MainHubService"
+import { Job, JobStatus, JobTracker, JobUpdate } from "../../jobtracker/jobTracker"
+import {
+  PIPELINE_JOB_TYPE,
+  PipelineJobPayload,
+  PipelineJobResult,
+  isPipelineJob,
+  toPipelineRun,
+} from "../../jobtracker/jobAdapters"
+
+/**
+ * Reference to an upstream node's output inside node params:
+ * `{ $from: "metrics" }` or `{ $from: "metrics.activityScore" }`
+ */
+export interface NodeRef {
+  $from: string
+}
+
+export interface PipelineNode {
+  id: string
+  /** MainHubService task type */
+  type: string
+  /** Static params; any NodeRef inside is replaced by the referenced output */
+  params?: Record<string, any>
+  /** Extra ordering dependencies on top of the ones implied by $from references */
+  dependsOn?: string[]
+}
+
+export interface PipelineDefinition {
+  name?: string
+  nodes: PipelineNode[]
+  /** Max nodes running at once (default: 4) */
+  concurrency?: number
+}
+
+export type PipelineNodeState = "pending" | "running" | "done" | "error" | "skipped"
+
+export interface PipelineNodeRun {
+  id: string
+  type: string
+  state: PipelineNodeState
+  taskId?: string
+  result?: unknown
+  error?: string
+  startedAt?: number
+  finishedAt?: number
+}
+
+export interface PipelineRun {
+  id: string
+  /** Run this one resumed from, if any */
+  resumedFrom?: string
+  definition: PipelineDefinition
+  status: "running" | "done" | "error"
+  nodes: Record<string, PipelineNodeRun>
+  startedAt: number
+  finishedAt?: number
+}
+
+/** The slice of MainHubService a pipeline needs */
+export interface PipelineHub {
+  hasTaskType(type: string): boolean
+  createTask(type: string, params: Record<string, any>): HubTask
+  runTask(id: string): Promise<HubTask | undefined>
+}
+
+export class PipelineValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PipelineValidationError"
+  }
+}
+
+/** Runs kept in memory besides their tracker jobs; running ones are never evicted */
+const MAX_KEPT_RUNS = 200
+/** A running run whose lease is not renewed in time belonged to a process that is gone */
+const RUN_LEASE_MS = 30_000
+
+const isRef = (v: unknown): v is NodeRef =>
+  !!v && typeof v === "object" && typeof (v as NodeRef).$from === "string" && Object.keys(v as object).length === 1
+
+/** Collect the node ids referenced anywhere inside params */
+function collectRefs(value: unknown, out = new Set<string>()): Set<string> {
+  if (isRef(value)) {
+    out.add(value.$from.split(".")[0])
+  } else if (Array.isArray(value)) {
+    value.forEach(v => collectRefs(v, out))
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach(v => collectRefs(v, out))
+  }
+  return out
+}
+
+/** Replace every NodeRef with the referenced (sub)value of an upstream result */
+function resolveRefs(value: unknown, outputs: Record<string, unknown>): any {
+  if (isRef(value)) {
+    const [nodeId, ...path] = value.$from.split(".")
+    return path.reduce<any>((acc, key) => (acc == null ? undefined : acc[key]), outputs[nodeId])
+  }
+  if (Array.isArray(value)) return value.map(v => resolveRefs(v, outputs))
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveRefs(v, outputs)]))
+  }
+  return value
+}
+
+/**
+ * Executes a DAG of hub tasks: outputs feed downstream params, independent
+ * branches run in parallel, and a failed node skips everything downstream of it.
+ *
+ * Every run is recorded as a tracker job (PIPELINE_JOB_TYPE), so it can be
+ * looked up and resumed after a restart. A run in progress is leased to its
+ * process; once the lease lapses it is settled as failed and can be resumed,
+ * but it does not continue on its own.
+ */
+export class PipelineRunner {
+  private readonly runs = new Map<string, PipelineRun>()
+  private readonly completions = new Map<string, Promise<void>>()
+  private readonly owner = `pipeline:${randomUUID()}`
+  private heartbeat?: NodeJS.Timeout
+
+  constructor(private readonly hub: PipelineHub, private readonly tracker: JobTracker) {}
+
+  /**
+   * Upstream node ids for every node; throws PipelineValidationError on
+   * duplicate ids, unknown task types, dangling references or cycles
+   */
+  dependencies(def: PipelineDefinition): Map<string, string[]> {
+    if (!def.nodes?.length) throw new PipelineValidationError("Pipeline has no nodes")
+    const deps = new Map<string, string[]>()
+    for (const node of def.nodes) {
+      if (deps.has(node.id)) throw new PipelineValidationError(`Duplicate node id: ${node.id}`)
+      if (!this.hub.hasTaskType(node.type)) {
+        throw new PipelineValidationError(`Node ${node.id}: unknown task type ${node.type}`)
+      }
+      deps.set(node.id, Array.from(new Set([...(node.dependsOn ?? []), ...collectRefs(node.params)])))
+    }
+    for (const [id, upstream] of deps) {
+      for (const dep of upstream) {
+        if (!deps.has(dep)) throw new PipelineValidationError(`Node ${id} depends on unknown node ${dep}`)
+        if (dep === id) throw new PipelineValidationError(`Node ${id} depends on itself`)
+      }
+    }
+
+    // Kahn's algorithm: anything left unvisited sits on a cycle
+    const indegree = new Map(Array.from(deps, ([id, upstream]) => [id, upstream.length]))
+    const ready = Array.from(indegree).filter(([, n]) => n === 0).map(([id]) => id)
+    let visited = 0
+    while (ready.length) {
+      const id = ready.pop()!
+      visited++
+      for (const [other, upstream] of deps) {
+        if (upstream.includes(id)) {
+          const n = indegree.get(other)! - 1
+          indegree.set(other, n)
+          if (n === 0) ready.push(other)
+        }
+      }
+    }
+    if (visited !== deps.size) throw new PipelineValidationError("Pipeline contains a cycle")
+    return deps
+  }
+
+  /**
+   * Validate and start a run in the background; the returned object is updated in place
+   */
+  start(def: PipelineDefinition, previous?: PipelineRun): PipelineRun {
+    const deps = this.dependencies(def)
+    const payload: PipelineJobPayload = { definition: def, resumedFrom: previous?.id }
+    const job = this.tracker.create(def.name ?? "pipeline", { type: PIPELINE_JOB_TYPE, payload })
+    const run: PipelineRun = {
+      id: job.id,
+      resumedFrom: previous?.id,
+      definition: def,
+      status: "running",
+      nodes: {},
+      startedAt: Date.now(),
+    }
+    for (const node of def.nodes) {
+      const prior = previous?.nodes[node.id]
+      run.nodes[node.id] = prior?.state === "done"
+        ? { ...prior }
+        : { id: node.id, type: node.type, state: "pending" }
+    }
+
+    this.persist(run, { status: JobStatus.Running, owner: this.owner })
+    this.runs.set(run.id, run)
+    this.evict()
+    this.completions.set(run.id, this.execute(run, deps).finally(() => {
+      this.completions.delete(run.id)
+      this.evict()
+      this.syncHeartbeat()
+    }))
+    this.syncHeartbeat()
+    return run
+  }
+
+  /** Start a run and resolve once every node has settled */
+  run(def: PipelineDefinition): Promise<PipelineRun> {
+    return this.wait(this.start(def))
+  }
+
+  /**
+   * Rerun a finished pipeline from its failed nodes: completed nodes keep their
+   * outputs, failed and skipped ones run again
+   */
+  resume(previous: PipelineRun): Promise<PipelineRun> {
+    return this.wait(this.start(previous.definition, previous))
+  }
+
+  /**
+   * A run by id, from memory or its tracker job. A persisted run still marked
+   * running whose lease lapsed is settled as failed here, so it can be resumed.
+   */
+  get(runId: string): PipelineRun | undefined {
+    const kept = this.runs.get(runId)
+    if (kept) return kept
+    const job = this.tracker.get(runId)
+    if (!job || !isPipelineJob(job)) return
+    const abandoned = job.status === JobStatus.Running && (job.leaseExpiresAt?.getTime() ?? 0) <= Date.now()
+    return abandoned ? this.interrupted(job) : toPipelineRun(job)
+  }
+
+  /** Resolve once the given run has settled */
+  async wait(run: PipelineRun): Promise<PipelineRun> {
+    await this.completions.get(run.id)
+    return run
+  }
+
+  /** Settle a run whose process went away; nodes it had in flight count as failed */
+  private interrupted(job: Job): PipelineRun {
+    const run = toPipelineRun(job)
+    const now = Date.now()
+    for (const node of Object.values(run.nodes)) {
+      if (node.state === "running") {
+        Object.assign(node, { state: "error", error: "Interrupted by restart", finishedAt: now })
+      } else if (node.state === "pending") {
+        Object.assign(node, { state: "skipped", error: "Pipeline run was interrupted" })
+      }
+    }
+    run.status = "error"
+    run.finishedAt = now
+    this.persist(run, { status: JobStatus.Failed, error: "Interrupted by restart" })
+    return run
+  }
+
+  /**
+   * Write the run's progress to its tracker job and renew the lease while it
+   * is running. A failed write is logged: the run itself carries on.
+   */
+  private persist(run: PipelineRun, changes: JobUpdate = {}): void {
+    const nodes = Object.values(run.nodes)
+    const settled = nodes.filter(n => n.state !== "pending" && n.state !== "running").length
+    const result: PipelineJobResult = structuredClone({
+      nodes: run.nodes,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+    })
+    const lease: JobUpdate = run.status === "running"
+      ? { leaseExpiresAt: new Date(Date.now() + RUN_LEASE_MS) }
+      : { owner: undefined, leaseExpiresAt: undefined }
+    try {
+      this.tracker.update(run.id, {
+        ...changes,
+        ...lease,
+        result,
+        progress: Math.round((settled / nodes.length) * 100),
+      })
+    } catch (err) {
+      console.error(`[PipelineRunner] Could not persist run ${run.id}:`, err)
+    }
+  }
+
+  /** Renew leases while this process has runs in flight, even between node updates */
+  private syncHeartbeat(): void {
+    if (this.completions.size && !this.heartbeat) {
+      this.heartbeat = setInterval(() => {
+        for (const id of this.completions.keys()) {
+          const run = this.runs.get(id)
+          if (run) this.persist(run)
+        }
+      }, RUN_LEASE_MS / 3)
+      this.heartbeat.unref()
+    } else if (!this.completions.size && this.heartbeat) {
+      clearInterval(this.heartbeat)
+      this.heartbeat = undefined
+    }
+  }
+
+  /** Drop the oldest finished runs beyond MAX_KEPT_RUNS */
+  private evict(): void {
+    for (const [id, run] of this.runs) {
+      if (this.runs.size <= MAX_KEPT_RUNS) return
+      if (run.status !== "running") this.runs.delete(id)
+    }
+  }
+
+  private async execute(run: PipelineRun, deps: Map<string, string[]>): Promise<void> {
+    const def = run.definition
+    const outputs: Record<string, unknown> = {}
+    for (const node of Object.values(run.nodes)) {
+      if (node.state === "done") outputs[node.id] = node.result
+    }
+
+    const concurrency = Math.max(1, def.concurrency ?? 4)
+    const inFlight = new Map<string, Promise<void>>()
+
+    const isReady = (id: string) =>
+      run.nodes[id].state === "pending" && deps.get(id)!.every(dep => run.nodes[dep].state === "done")
+
+    const skipDownstream = (failedId: string) => {
+      for (const [id, upstream] of deps) {
+        if (upstream.includes(failedId) && run.nodes[id].state === "pending") {
+          run.nodes[id] = { ...run.nodes[id], state: "skipped", error: `Upstream node ${failedId} did not complete` }
+          skipDownstream(id)
+        }
+      }
+    }
+
+    const start = (node: PipelineNode) => {
+      const entry = run.nodes[node.id]
+      entry.state = "running"
+      entry.startedAt = Date.now()
+      const promise = (async () => {
+        try {
+          const task = this.hub.createTask(node.type, resolveRefs(node.params ?? {}, outputs))
+          entry.taskId = task.id
+          this.persist(run)
+          const settled = await this.hub.runTask(task.id)
+          if (settled?.status !== "done") throw new Error(settled?.error ?? "Task did not complete")
+          entry.state = "done"
+          entry.result = settled.result
+          outputs[node.id] = settled.result
+        } catch (err: any) {
+          entry.state = "error"
+          entry.error = err?.message ?? String(err)
+          skipDownstream(node.id)
+        } finally {
+          entry.finishedAt = Date.now()
+          inFlight.delete(node.id)
+          this.persist(run)
+        }
+      })()
+      inFlight.set(node.id, promise)
+    }
+
+    for (;;) {
+      for (const node of def.nodes) {
+        if (inFlight.size >= concurrency) break
+        if (isReady(node.id)) start(node)
+      }
+      if (!inFlight.size) break
+      await Promise.race(inFlight.values())
+    }
+
+    run.status = Object.values(run.nodes).every(n => n.state === "done") ? "done" : "error"
+    run.finishedAt = Date.now()
+    this.persist(run, run.status === "done"
+      ? { status: JobStatus.Completed }
+      : { status: JobStatus.Failed, error: "One or more nodes did not complete" })
+  }
+}
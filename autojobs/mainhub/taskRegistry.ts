@@ -0,0 +1,67 @@
+import { TypeStruct } from "../typestruct/typestruct"
+import type { JobContext, RetryPolicy } from "../../jobtracker/jobRunner"
+
+/**
+ * A hub task type: its param schema, execution limits and implementation
+ */
+export interface HubTaskHandler<P = any, R = unknown> {
+  type: string
+  description?: string
+  /** Params are validated on createTask and again before every run */
+  params: TypeStruct<P>
+  /** Per-attempt timeout (default: runner default) */
+  timeoutMs?: number
+  retry?: Partial<RetryPolicy>
+  run(params: P, ctx: JobContext): Promise<R> | R
+}
+
+export class InvalidTaskParamsError extends Error {
+  constructor(public readonly type: string, public readonly issues: string[]) {
+    super(`Invalid params for task type ${type}: ${issues.join("; ")}`)
+    this.name = "InvalidTaskParamsError"
+  }
+}
+
+export class HubTaskRegistry {
+  private readonly handlers = new Map<string, HubTaskHandler>()
+
+  register<P, R>(handler: HubTaskHandler<P, R>): this {
+    if (this.handlers.has(handler.type)) {
+      throw new Error(`Task type already registered: ${handler.type}`)
+    }
+    this.handlers.set(handler.type, handler as HubTaskHandler)
+    return this
+  }
+
+  get(type: string): HubTaskHandler | undefined {
+    return this.handlers.get(type)
+  }
+
+  has(type: string): boolean {
+    return this.handlers.has(type)
+  }
+
+  types(): string[] {
+    return Array.from(this.handlers.keys())
+  }
+
+  list(): HubTaskHandler[] {
+    return Array.from(this.handlers.values())
+  }
+
+  /**
+   * Validate params for a registered type; throws InvalidTaskParamsError
+   */
+  parseParams(type: string, params: unknown): any {
+    const handler = this.handlers.get(type)
+    if (!handler) throw new Error(`Unknown task type: ${type}`)
+    const result = handler.params.safeParse(params)
+    if (!result.success) {
+      throw new InvalidTaskParamsError(
+        type,
+        result.errors.map((i: any) => `${i.path?.join(".") || "(root)"}: ${i.message}`)
+      )
+    }
+    return result.data
+  }
+}
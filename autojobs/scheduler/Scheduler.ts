@@ -0,0 +1,320 @@
+import { EventEmitter } from "events"
+import { randomUUID } from "crypto"
+import { MainHubService, HubTask } from "../mainhub/MainHubService"
+import { CronExpression } from "./cronExpression"
+import { CatchUpPolicy, OverlapPolicy, ScheduleDefinition, ScheduleStore } from "./scheduleStore"
+
+export interface ScheduleInput {
+  name?: string
+  taskType: string
+  params?: Record<string, any>
+  cron?: string
+  intervalMs?: number
+  jitterMs?: number
+  overlap?: OverlapPolicy
+  catchUp?: CatchUpPolicy
+  maxCatchUp?: number
+  enabled?: boolean
+}
+
+export interface ScheduleStatus extends ScheduleDefinition {
+  nextRunAt?: number
+  /** Hub task ids dispatched by this schedule that have not settled yet */
+  running: string[]
+  /** Fires waiting behind a running task (overlap "queue") */
+  queued: number
+}
+
+export interface SchedulerEvents {
+  dispatched: (scheduleId: string, task: HubTask) => void
+  settled: (scheduleId: string, task: HubTask | undefined) => void
+  skipped: (scheduleId: string, reason: string) => void
+  /** A fire could not create its task; the schedule stays armed */
+  dispatchError: (scheduleId: string, error: Error) => void
+}
+
+interface RuntimeState {
+  timer?: NodeJS.Timeout
+  nextRunAt?: number
+  running: Set<string>
+  queued: number
+}
+
+/** setTimeout overflows above ~24.8 days */
+const MAX_TIMER_MS = 2 ** 31 - 1
+const MIN_INTERVAL_MS = 1_000
+/** Hard ceiling for maxCatchUp, whatever the caller asks for */
+const MAX_CATCH_UP = 1_000
+
+/**
+ * Dispatches MainHubService task types on cron expressions or fixed intervals,
+ * with jitter, overlap policies and catch-up of runs missed while stopped
+ */
+export class Scheduler extends EventEmitter {
+  private readonly state = new Map<string, RuntimeState>()
+  private readonly crons = new Map<string, CronExpression>()
+  private started = false
+
+  constructor(
+    private readonly hub: MainHubService,
+    private readonly store: ScheduleStore = new ScheduleStore()
+  ) {
+    super()
+  }
+
+  public override on<K extends keyof SchedulerEvents>(event: K, listener: SchedulerEvents[K]): this {
+    return super.on(event, listener as any)
+  }
+
+  /**
+   * Validate and persist a new schedule; armed immediately if the scheduler is running
+   */
+  public add(input: ScheduleInput): ScheduleDefinition {
+    const def: ScheduleDefinition = {
+      id: randomUUID(),
+      name: input.name,
+      taskType: input.taskType,
+      params: input.params ?? {},
+      cron: input.cron,
+      intervalMs: input.intervalMs,
+      jitterMs: input.jitterMs ?? 0,
+      overlap: input.overlap ?? "skip",
+      catchUp: input.catchUp ?? "none",
+      maxCatchUp: input.maxCatchUp ?? 10,
+      enabled: input.enabled ?? true,
+      createdAt: Date.now(),
+    }
+    this.validate(def)
+    this.store.save(def)
+    this.arm(def)
+    return def
+  }
+
+  public update(id: string, changes: Partial<ScheduleInput>): ScheduleDefinition | undefined {
+    const current = this.store.get(id)
+    if (!current) return
+    const next: ScheduleDefinition = { ...current, ...changes, params: changes.params ?? current.params }
+    // Switching trigger kind clears the other one
+    if (changes.cron !== undefined) next.intervalMs = undefined
+    if (changes.intervalMs !== undefined) next.cron = undefined
+    this.validate(next)
+    this.crons.delete(id)
+    this.store.save(next)
+    this.disarm(id)
+    this.arm(next)
+    return next
+  }
+
+  public remove(id: string): boolean {
+    this.disarm(id)
+    this.state.delete(id)
+    this.crons.delete(id)
+    return this.store.delete(id)
+  }
+
+  public get(id: string): ScheduleStatus | undefined {
+    const def = this.store.get(id)
+    return def && this.describe(def)
+  }
+
+  public list(): ScheduleStatus[] {
+    return this.store.list().map(def => this.describe(def))
+  }
+
+  /**
+   * Fire a schedule now, outside its timetable; the overlap policy still applies
+   */
+  public trigger(id: string): HubTask | undefined {
+    const def = this.store.get(id)
+    if (!def) return
+    return this.fire(def, Date.now())
+  }
+
+  /**
+   * Replay missed runs according to each schedule's catch-up policy, then arm timers
+   */
+  public start(): void {
+    if (this.started) return
+    this.started = true
+    const now = Date.now()
+    for (const def of this.store.list()) {
+      if (!def.enabled) continue
+      this.catchUp(def, now)
+      this.arm(def)
+    }
+  }
+
+  /** Disarm all timers; tasks already dispatched keep running */
+  public stop(): void {
+    this.started = false
+    for (const id of this.state.keys()) this.disarm(id)
+  }
+
+  private validate(def: ScheduleDefinition): void {
+    if (Number(!!def.cron) + Number(def.intervalMs !== undefined) !== 1) {
+      throw new Error("Exactly one of cron or intervalMs is required")
+    }
+    if (def.cron) this.cronOf(def)
+    if (def.intervalMs !== undefined && (!Number.isFinite(def.intervalMs) || def.intervalMs < MIN_INTERVAL_MS)) {
+      throw new Error(`intervalMs must be >= ${MIN_INTERVAL_MS}`)
+    }
+    if (def.jitterMs < 0) throw new Error("jitterMs must be >= 0")
+    if (!Number.isInteger(def.maxCatchUp) || def.maxCatchUp < 1 || def.maxCatchUp > MAX_CATCH_UP) {
+      throw new Error(`maxCatchUp must be an integer between 1 and ${MAX_CATCH_UP}`)
+    }
+    if (!this.hub.hasTaskType(def.taskType)) throw new Error(`Unknown task type: ${def.taskType}`)
+    this.hub.validateTaskParams(def.taskType, def.params)
+  }
+
+  private cronOf(def: ScheduleDefinition): CronExpression {
+    let expr = this.crons.get(def.id)
+    if (!expr || expr.expression !== def.cron) {
+      expr = new CronExpression(def.cron!)
+      this.crons.set(def.id, expr)
+    }
+    return expr
+  }
+
+  private runtime(id: string): RuntimeState {
+    let s = this.state.get(id)
+    if (!s) {
+      s = { running: new Set(), queued: 0 }
+      this.state.set(id, s)
+    }
+    return s
+  }
+
+  /** Next fire time strictly after `after` */
+  private nextFire(def: ScheduleDefinition, after: number): number | undefined {
+    if (def.cron) return this.cronOf(def).next(new Date(after))?.getTime()
+    const anchor = def.lastRunAt ?? def.createdAt
+    const periods = Math.max(1, Math.floor((after - anchor) / def.intervalMs!) + 1)
+    return anchor + periods * def.intervalMs!
+  }
+
+  /**
+   * The newest maxCatchUp fire times in (lastRunAt, now], oldest first. Work is
+   * bounded by maxCatchUp rather than by how long the scheduler was down.
+   */
+  private missedFires(def: ScheduleDefinition, now: number): number[] {
+    const last = def.lastRunAt
+    if (last === undefined || now <= last) return []
+    const limit = Math.min(def.maxCatchUp, MAX_CATCH_UP)
+    if (!def.cron) {
+      const count = Math.floor((now - last) / def.intervalMs!)
+      const first = Math.max(1, count - limit + 1)
+      return Array.from({ length: Math.max(0, count - first + 1) }, (_, i) => last + (first + i) * def.intervalMs!)
+    }
+
+    // Widen a window back from now until it holds enough fires or reaches lastRunAt
+    const expr = this.cronOf(def)
+    for (let span = 3_600_000; ; span *= 2) {
+      const from = Math.max(last, now - span)
+      const fires = expr.between(new Date(from), new Date(now)).map(d => d.getTime())
+      if (fires.length >= limit || from === last) return fires.slice(-limit)
+    }
+  }
+
+  private catchUp(def: ScheduleDefinition, now: number): void {
+    if (def.catchUp === "none") return
+    const missed = this.missedFires(def, now)
+    if (!missed.length) return
+    this.fire(def, missed[missed.length - 1])
+    if (def.catchUp === "all" && missed.length > 1) {
+      // Replayed back-to-back behind the first run regardless of overlap policy
+      this.runtime(def.id).queued += missed.length - 1
+    }
+  }
+
+  private arm(def: ScheduleDefinition): void {
+    if (!this.started || !def.enabled) return
+    const s = this.runtime(def.id)
+    const now = Date.now()
+    const nextRunAt = this.nextFire(def, now)
+    s.nextRunAt = nextRunAt
+    if (nextRunAt === undefined) return
+
+    const jitter = def.jitterMs ? Math.floor(Math.random() * def.jitterMs) : 0
+    const delay = nextRunAt - now + jitter
+    if (delay > MAX_TIMER_MS) {
+      s.timer = setTimeout(() => this.arm(def), MAX_TIMER_MS)
+      return
+    }
+    s.timer = setTimeout(() => {
+      const latest = this.store.get(def.id)
+      if (!latest) return
+      this.fire(latest, nextRunAt)
+      this.arm(this.store.get(def.id) ?? latest)
+    }, Math.max(0, delay))
+  }
+
+  private disarm(id: string): void {
+    const s = this.state.get(id)
+    if (!s) return
+    clearTimeout(s.timer)
+    s.timer = undefined
+    s.nextRunAt = undefined
+  }
+
+  private fire(def: ScheduleDefinition, scheduledAt: number): HubTask | undefined {
+    const s = this.runtime(def.id)
+    if (s.running.size) {
+      if (def.overlap === "skip") {
+        this.emit("skipped", def.id, "previous run still in progress")
+        return
+      }
+      if (def.overlap === "queue") {
+        s.queued++
+        return
+      }
+      s.running.forEach(taskId => this.hub.cancelTask(taskId, `Superseded by schedule ${def.id}`))
+    }
+    return this.tryDispatch(def, scheduledAt)
+  }
+
+  /** Fires run from timers, so a failure is reported instead of thrown */
+  private tryDispatch(def: ScheduleDefinition, scheduledAt: number): HubTask | undefined {
+    try {
+      return this.dispatch(def, scheduledAt)
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      if (this.listenerCount("dispatchError")) this.emit("dispatchError", def.id, error)
+      else console.error(`[Scheduler] Schedule ${def.id} could not dispatch:`, error)
+    }
+  }
+
+  private dispatch(def: ScheduleDefinition, scheduledAt: number): HubTask {
+    const s = this.runtime(def.id)
+    const task = this.hub.createTask(def.taskType, { ...def.params })
+    s.running.add(task.id)
+    this.store.save({ ...def, lastRunAt: scheduledAt, lastTaskId: task.id })
+    this.emit("dispatched", def.id, task)
+
+    this.hub
+      .runTask(task.id)
+      .catch(err => {
+        console.error(`[Scheduler] Task ${task.id} for schedule ${def.id} failed:`, err)
+        return undefined
+      })
+      .then(settled => {
+        s.running.delete(task.id)
+        this.emit("settled", def.id, settled)
+        const latest = this.store.get(def.id)
+        if (latest && s.queued > 0 && !s.running.size) {
+          s.queued--
+          this.tryDispatch(latest, Date.now())
+        }
+      })
+    return task
+  }
+
+  private describe(def: ScheduleDefinition): ScheduleStatus {
+    const s = this.state.get(def.id)
+    return {
+      ...def,
+      nextRunAt: s?.nextRunAt ?? (def.enabled ? this.nextFire(def, Date.now()) : undefined),
+      running: s ? Array.from(s.running) : [],
+      queued: s?.queued ?? 0,
+    }
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Minimal 5-field cron expression (minute hour day-of-month month day-of-week), evaluated in UTC.
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/5`, `10-40/10`),
+ * month/weekday names (`jan`, `mon`) and the usual @hourly/@daily/@weekly/@monthly macros.
+ */
+
+interface FieldSpec {
+  min: number
+  max: number
+  names?: string[]
+}
+
+const FIELDS: FieldSpec[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"] },
+  { min: 0, max: 6, names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] },
+]
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+}
+
+/** Give up searching for a matching time after this many years (e.g. "0 0 30 2 *") */
+const MAX_SEARCH_YEARS = 5
+
+export class CronParseError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`)
+    this.name = "CronParseError"
+  }
+}
+
+export class CronExpression {
+  private readonly minutes: Set<number>
+  private readonly hours: Set<number>
+  private readonly days: Set<number>
+  private readonly months: Set<number>
+  private readonly weekdays: Set<number>
+  /**
+   * Cron rule: when both day fields are restricted, either may match. A field
+   * covering its whole range (`*`, `*\/1`, `1-31`) counts as unrestricted.
+   */
+  private readonly dayOr: boolean
+
+  constructor(public readonly expression: string) {
+    const source = MACROS[expression.trim().toLowerCase()] ?? expression
+    const parts = source.trim().split(/\s+/)
+    if (parts.length !== 5) throw new CronParseError(expression, "expected 5 fields")
+
+    const [minutes, hours, days, months, weekdays] = parts.map((part, i) =>
+      this.parseField(part, FIELDS[i])
+    )
+    this.minutes = minutes
+    this.hours = hours
+    this.days = days
+    this.months = months
+    // 7 is an accepted alias for Sunday
+    this.weekdays = new Set(Array.from(weekdays, d => d % 7))
+    this.dayOr = days.size < FIELDS[2].max - FIELDS[2].min + 1 && this.weekdays.size < 7
+  }
+
+  /**
+   * First matching minute strictly after `from`, or null if none within a few years
+   */
+  next(from: Date): Date | null {
+    const d = new Date(from.getTime())
+    d.setUTCSeconds(0, 0)
+    d.setUTCMinutes(d.getUTCMinutes() + 1)
+    const limit = from.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 3_600_000
+
+    while (d.getTime() <= limit) {
+      if (!this.months.has(d.getUTCMonth() + 1)) {
+        d.setUTCMonth(d.getUTCMonth() + 1, 1)
+        d.setUTCHours(0, 0)
+        continue
+      }
+      if (!this.matchesDay(d)) {
+        d.setUTCDate(d.getUTCDate() + 1)
+        d.setUTCHours(0, 0)
+        continue
+      }
+      if (!this.hours.has(d.getUTCHours())) {
+        d.setUTCHours(d.getUTCHours() + 1, 0)
+        continue
+      }
+      if (!this.minutes.has(d.getUTCMinutes())) {
+        d.setUTCMinutes(d.getUTCMinutes() + 1)
+        continue
+      }
+      return d
+    }
+    return null
+  }
+
+  /**
+   * All fire times in (from, to], at most `max`
+   */
+  between(from: Date, to: Date, max = Infinity): Date[] {
+    const out: Date[] = []
+    let cursor: Date | null = from
+    while (out.length < max && (cursor = this.next(cursor)) && cursor.getTime() <= to.getTime()) {
+      out.push(cursor)
+    }
+    return out
+  }
+
+  private matchesDay(d: Date): boolean {
+    const dom = this.days.has(d.getUTCDate())
+    const dow = this.weekdays.has(d.getUTCDay())
+    return this.dayOr ? dom || dow : dom && dow
+  }
+
+  private parseField(part: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>()
+    const max = spec.names?.length === 7 ? 7 : spec.max
+
+    for (const item of part.toLowerCase().split(",")) {
+      const [range, stepRaw] = item.split("/")
+      const step = stepRaw === undefined ? 1 : Number(stepRaw)
+      if (!Number.isInteger(step) || step <= 0) throw new CronParseError(this.expression, `bad step "${item}"`)
+
+      let lo: number
+      let hi: number
+      if (range === "*") {
+        lo = spec.min
+        hi = spec.max
+      } else {
+        const [a, b] = range.split("-")
+        lo = this.parseValue(a, spec)
+        hi = b === undefined ? (stepRaw === undefined ? lo : max) : this.parseValue(b, spec)
+      }
+      if (lo < spec.min || hi > max || lo > hi) {
+        throw new CronParseError(this.expression, `"${item}" out of range ${spec.min}-${max}`)
+      }
+      for (let v = lo; v <= hi; v += step) values.add(v)
+    }
+    return values
+  }
+
+  private parseValue(raw: string, spec: FieldSpec): number {
+    const named = spec.names?.indexOf(raw) ?? -1
+    if (named >= 0) return named + spec.min
+    const n = Number(raw)
+    if (raw === "" || !Number.isInteger(n)) throw new CronParseError(this.expression, `bad value "${raw}"`)
+    return n
+  }
+}
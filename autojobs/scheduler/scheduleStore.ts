@@ -0,0 +1,74 @@
+import fs from "fs"
+import path from "path"
+
+export type OverlapPolicy = "skip" | "queue" | "cancel-previous"
+
+/** What to do with fire times missed while the scheduler was down */
+export type CatchUpPolicy = "none" | "latest" | "all"
+
+export interface ScheduleDefinition {
+  id: string
+  name?: string
+  /** MainHubService task type dispatched on every fire */
+  taskType: string
+  params: Record<string, any>
+  /** 5-field UTC cron expression; exactly one of cron / intervalMs is set */
+  cron?: string
+  intervalMs?: number
+  /** Random delay 0..jitterMs added to every fire */
+  jitterMs: number
+  overlap: OverlapPolicy
+  catchUp: CatchUpPolicy
+  /** Upper bound on runs replayed by catchUp "all" */
+  maxCatchUp: number
+  enabled: boolean
+  createdAt: number
+  /** Last fire time that was dispatched (Unix ms) */
+  lastRunAt?: number
+  lastTaskId?: string
+}
+
+/**
+ * JSON-file persistence for schedule definitions, shared by the tasks API and CLI
+ */
+export class ScheduleStore {
+  private schedules = new Map<string, ScheduleDefinition>()
+
+  constructor(private readonly filePath?: string) {
+    this.reload()
+  }
+
+  reload(): void {
+    this.schedules.clear()
+    if (!this.filePath || !fs.existsSync(this.filePath)) return
+    const raw = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as ScheduleDefinition[]
+    for (const def of raw) this.schedules.set(def.id, def)
+  }
+
+  get(id: string): ScheduleDefinition | undefined {
+    return this.schedules.get(id)
+  }
+
+  list(): ScheduleDefinition[] {
+    return Array.from(this.schedules.values())
+  }
+
+  save(def: ScheduleDefinition): void {
+    this.schedules.set(def.id, def)
+    this.flush()
+  }
+
+  delete(id: string): boolean {
+    const existed = this.schedules.delete(id)
+    if (existed) this.flush()
+    return existed
+  }
+
+  private flush(): void {
+    if (!this.filePath) return
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const tmp = `${this.filePath}.tmp`
+    fs.writeFileSync(tmp, JSON.stringify(this.list(), null, 2))
+    fs.renameSync(tmp, this.filePath)
+  }
+}
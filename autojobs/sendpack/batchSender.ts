@@ -0,0 +1,239 @@
+import zlib from "zlib"
+import { promisify } from "util"
+import { Packet, PacketSchema, SendPack, SendResult, isRetryableStatus } from "./sendpack"
+
+export type BatchFraming = "json" | "ndjson"
+export type BatchCompression = "none" | "gzip" | "zstd"
+
+export interface BatchSenderOptions {
+  /** Flush once this many packets are queued (default: 100) */
+  maxBatchSize?: number
+  /** Flush once the encoded, uncompressed batch reaches this many bytes (default: 256 KiB) */
+  maxBatchBytes?: number
+  /** Flush whatever is queued after this long (default: 1000) */
+  flushIntervalMs?: number
+  /** "json" posts an array, "ndjson" one packet per line (default: "json") */
+  framing?: BatchFraming
+  /**
+   * Body compression; "zstd" needs a Node.js build with zlib zstd support (default: "none").
+   * Signatures cover the uncompressed framed text, so receivers verify after
+   * inflating; express.json inflates gzip but not zstd.
+   */
+  compression?: BatchCompression
+  /** Times a packet failed by a per-item ack is re-queued before giving up (default: 3) */
+  maxRequeues?: number
+}
+
+/**
+ * Per-item ack a server may return for a batch, either as the response body
+ * or under `acks`. Matched by packet id, or by position when ids are absent.
+ */
+export interface BatchAck {
+  id?: string
+  ok?: boolean
+  success?: boolean
+  status?: number
+  error?: string
+}
+
+interface QueuedPacket {
+  packet: Packet
+  line: string
+  bytes: number
+  requeues: number
+  attempts: number
+  resolve: (result: SendResult) => void
+}
+
+const CONTENT_TYPES: Record<BatchFraming, string> = {
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+}
+
+const gzip = promisify(zlib.gzip)
+// zstd landed in zlib in Node.js 22.15 / 23.8
+const zstdCompress = typeof (zlib as any).zstdCompress === "function"
+  ? promisify((zlib as any).zstdCompress as (buf: Buffer, cb: (err: Error | null, out: Buffer) => void) => void)
+  : undefined
+
+const ackOk = (ack: BatchAck): boolean =>
+  ack.ok ?? ack.success ?? (ack.status !== undefined ? ack.status >= 200 && ack.status < 300 : false)
+
+/**
+ * Coalesces packets into batched POSTs through a SendPack. Each enqueue resolves
+ * with that packet's own SendResult; packets rejected by a per-item ack are
+ * re-queued into a later batch instead of resending the whole batch.
+ */
+export class BatchSender {
+  private readonly maxBatchSize: number
+  private readonly maxBatchBytes: number
+  private readonly flushIntervalMs: number
+  private readonly framing: BatchFraming
+  private readonly compression: BatchCompression
+  private readonly maxRequeues: number
+  private queue: QueuedPacket[] = []
+  private queuedBytes = 0
+  private timer?: NodeJS.Timeout
+  private readonly inFlight = new Set<Promise<void>>()
+  private closed = false
+
+  constructor(private readonly sender: SendPack, opts: BatchSenderOptions = {}) {
+    this.maxBatchSize = Math.max(1, opts.maxBatchSize ?? 100)
+    this.maxBatchBytes = Math.max(1, opts.maxBatchBytes ?? 256 * 1024)
+    this.flushIntervalMs = Math.max(0, opts.flushIntervalMs ?? 1_000)
+    this.framing = opts.framing ?? "json"
+    this.compression = opts.compression ?? "none"
+    this.maxRequeues = Math.max(0, opts.maxRequeues ?? 3)
+    if (this.compression === "zstd" && !zstdCompress) {
+      throw new Error("zstd compression is not supported by this Node.js runtime")
+    }
+  }
+
+  /** Packets waiting for the next flush */
+  public get size(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Queue a packet; resolves with its SendResult once its batch settles
+   */
+  public enqueue(packet: Packet): Promise<SendResult> {
+    if (this.closed) return Promise.reject(new Error("BatchSender is closed"))
+    const parsed = PacketSchema.safeParse(packet)
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      return Promise.reject(new Error(`Invalid packet: ${issues.join("; ")}`))
+    }
+    return new Promise<SendResult>(resolve => {
+      const line = JSON.stringify(packet)
+      this.push({ packet, line, bytes: Buffer.byteLength(line), requeues: 0, attempts: 0, resolve })
+    })
+  }
+
+  /**
+   * Send everything queued now, in as many batches as the limits require
+   */
+  public async flush(): Promise<void> {
+    this.clearTimer()
+    while (this.queue.length) this.dispatch()
+    await Promise.all(this.inFlight)
+  }
+
+  /** Flush remaining packets (including re-queued ones) and reject further enqueues */
+  public async close(): Promise<void> {
+    this.closed = true
+    while (this.queue.length || this.inFlight.size) await this.flush()
+  }
+
+  private push(item: QueuedPacket, front = false): void {
+    front ? this.queue.unshift(item) : this.queue.push(item)
+    this.queuedBytes += item.bytes
+    if (this.queue.length >= this.maxBatchSize || this.queuedBytes >= this.maxBatchBytes) {
+      this.clearTimer()
+      this.dispatch()
+    }
+    if (this.queue.length && !this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = undefined
+        void this.flush()
+      }, this.flushIntervalMs)
+    }
+  }
+
+  private clearTimer(): void {
+    clearTimeout(this.timer)
+    this.timer = undefined
+  }
+
+  /** Take one batch off the queue (always at least one packet) and send it */
+  private dispatch(): void {
+    let bytes = 0
+    let count = 0
+    while (count < this.queue.length && count < this.maxBatchSize) {
+      const next = this.queue[count].bytes
+      if (count > 0 && bytes + next > this.maxBatchBytes) break
+      bytes += next
+      count++
+    }
+    const batch = this.queue.splice(0, count)
+    this.queuedBytes -= bytes
+
+    const promise = this.send(batch).finally(() => this.inFlight.delete(promise))
+    this.inFlight.add(promise)
+  }
+
+  private async send(batch: QueuedPacket[]): Promise<void> {
+    let result: SendResult
+    try {
+      const { body, text, headers } = await this.encode(batch)
+      result = await this.sender.sendRaw(body, headers, text)
+    } catch (err: any) {
+      result = { success: false, status: 0, error: err?.message ?? String(err), attempts: 1 }
+    }
+    for (const item of batch) item.attempts += result.attempts
+
+    if (!result.success) {
+      for (const item of batch) item.resolve({ ...result, attempts: item.attempts })
+      return
+    }
+
+    const acks = this.acksOf(result.responseBody, batch.length)
+    if (!acks) {
+      for (const item of batch) item.resolve({ ...result, attempts: item.attempts })
+      return
+    }
+
+    const byId = new Map(acks.filter(a => a.id !== undefined).map(a => [a.id!, a]))
+    const retry: QueuedPacket[] = []
+    batch.forEach((item, i) => {
+      const ack = byId.size ? byId.get(item.packet.id) : acks[i]
+      if (!ack) {
+        return item.resolve({ success: false, status: result.status, error: "Missing ack for packet", attempts: item.attempts })
+      }
+      if (ackOk(ack)) {
+        return item.resolve({ success: true, status: ack.status ?? result.status, responseBody: ack, attempts: item.attempts })
+      }
+      const retryable = ack.status === undefined || isRetryableStatus(ack.status)
+      if (retryable && item.requeues < this.maxRequeues) {
+        item.requeues++
+        retry.push(item)
+      } else {
+        item.resolve({
+          success: false,
+          status: ack.status ?? result.status,
+          responseBody: ack,
+          error: ack.error ?? `Packet rejected${ack.status ? ` with status ${ack.status}` : ""}`,
+          attempts: item.attempts,
+        })
+      }
+    })
+    // Re-queued packets go first so they are not starved by newer traffic
+    for (const item of retry.reverse()) this.push(item, true)
+  }
+
+  /** Ack array from `[...]` or `{ acks: [...] }`; undefined when the server sent none */
+  private acksOf(body: unknown, batchSize: number): BatchAck[] | undefined {
+    const list = Array.isArray(body) ? body : (body as { acks?: unknown })?.acks
+    if (!Array.isArray(list) || !list.every(a => a && typeof a === "object")) return undefined
+    const acks = list as BatchAck[]
+    // Positional acks only make sense when they line up with the batch
+    if (!acks.some(a => a.id !== undefined) && acks.length !== batchSize) return undefined
+    return acks
+  }
+
+  /** Wire body plus the framed text it was compressed from, which is what gets signed */
+  private async encode(
+    batch: QueuedPacket[]
+  ): Promise<{ body: string | Buffer; text: string; headers: Record<string, string> }> {
+    const text = this.framing === "ndjson"
+      ? batch.map(i => i.line).join("\n") + "\n"
+      : `[${batch.map(i => i.line).join(",")}]`
+    const headers: Record<string, string> = {
+      "Content-Type": CONTENT_TYPES[this.framing],
+      "X-SendPack-Batch-Size": String(batch.length),
+    }
+    if (this.compression === "none") return { body: text, text, headers }
+    const body = this.compression === "gzip" ? await gzip(text) : await zstdCompress!(Buffer.from(text))
+    return { body, text, headers: { ...headers, "Content-Encoding": this.compression } }
+  }
+}
@@ -0,0 +1,285 @@
+import { EventEmitter } from "events"
+import { promises as fs } from "fs"
+import path from "path"
+import { randomUUID } from "crypto"
+import { Packet, PacketSchema, SendPack, SendResult, isRetryableStatus } from "./sendpack"
+
+/** A packet persisted in the outbox, waiting for (re)delivery */
+export interface OutboxEntry {
+  /** Stable Idempotency-Key sent with every delivery attempt of this packet */
+  idempotencyKey: string
+  packet: Packet
+  /** Delivery rounds so far (each round is one SendPack.send with its own in-memory retries) */
+  attempts: number
+  enqueuedAt: number
+  nextAttemptAt: number
+  lastStatus?: number
+  lastError?: string
+}
+
+export interface DeadLetter extends OutboxEntry {
+  deadAt: number
+  reason: "max_attempts" | "rejected"
+}
+
+export interface OutboxOptions {
+  /** Directory holding pending/ and dead/ subfolders */
+  dir: string
+  /** Delivery rounds before a packet is dead-lettered (default: 10) */
+  maxAttempts?: number
+  /** How often due packets are picked up (default: 5000) */
+  pollIntervalMs?: number
+  /** Delay before the second round; doubles per round (default: 1000) */
+  baseDelayMs?: number
+  /** Upper bound for the redelivery delay (default: 5 min) */
+  maxDelayMs?: number
+  /** Packets delivered in parallel per pass (default: 4) */
+  concurrency?: number
+}
+
+export interface OutboxEvents {
+  delivered: (entry: OutboxEntry, result: SendResult) => void
+  retrying: (entry: OutboxEntry, result: SendResult) => void
+  deadLettered: (entry: DeadLetter) => void
+  /** A background delivery pass failed, e.g. the outbox dir became unreadable */
+  drainError: (error: Error) => void
+}
+
+const PENDING = "pending"
+const DEAD = "dead"
+
+/**
+ * Durable delivery for SendPack: packets are written to disk before the first
+ * send and redelivered in the background until accepted. Packets that exhaust
+ * their attempts, or are rejected with a non-retryable status, move to a
+ * dead-letter queue that can be inspected and replayed.
+ */
+export class SendPackOutbox extends EventEmitter {
+  private readonly maxAttempts: number
+  private readonly pollIntervalMs: number
+  private readonly baseDelayMs: number
+  private readonly maxDelayMs: number
+  private readonly concurrency: number
+  private timer?: NodeJS.Timeout
+  private draining?: Promise<void>
+  /** Set when a drain is requested mid-pass, so packets enqueued meanwhile are not left waiting */
+  private rerun = false
+  private ready?: Promise<void>
+
+  constructor(private readonly sender: SendPack, private readonly opts: OutboxOptions) {
+    super()
+    if (!opts.dir) throw new Error("Outbox dir is required")
+    this.maxAttempts = opts.maxAttempts ?? 10
+    this.pollIntervalMs = opts.pollIntervalMs ?? 5_000
+    this.baseDelayMs = opts.baseDelayMs ?? 1_000
+    this.maxDelayMs = opts.maxDelayMs ?? 5 * 60_000
+    this.concurrency = Math.max(1, opts.concurrency ?? 4)
+  }
+
+  public override on<K extends keyof OutboxEvents>(event: K, listener: OutboxEvents[K]): this {
+    return super.on(event, listener as any)
+  }
+
+  /**
+   * Validate and persist a packet, then trigger a delivery pass.
+   * Resolves once the packet is on disk, not when it is delivered.
+   */
+  public async enqueue(packet: Packet): Promise<OutboxEntry> {
+    const parsed = PacketSchema.safeParse(packet)
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      throw new Error(`Invalid packet: ${issues.join("; ")}`)
+    }
+    await this.init()
+    const now = Date.now()
+    const entry: OutboxEntry = {
+      idempotencyKey: randomUUID(),
+      packet,
+      attempts: 0,
+      enqueuedAt: now,
+      nextAttemptAt: now,
+    }
+    await this.write(PENDING, entry)
+    this.kick()
+    return entry
+  }
+
+  /** Start background redelivery */
+  public start(): void {
+    if (this.timer) return
+    this.timer = setInterval(() => this.kick(), this.pollIntervalMs)
+    this.kick()
+  }
+
+  /** Stop background redelivery and wait for the current pass */
+  public async stop(): Promise<void> {
+    clearInterval(this.timer)
+    this.timer = undefined
+    await this.draining
+  }
+
+  public async pending(): Promise<OutboxEntry[]> {
+    await this.init()
+    return this.readAll<OutboxEntry>(PENDING)
+  }
+
+  public async deadLetters(): Promise<DeadLetter[]> {
+    await this.init()
+    return this.readAll<DeadLetter>(DEAD)
+  }
+
+  /**
+   * Move dead letters back into the outbox with a fresh attempt budget.
+   * Keeps their idempotency key so receivers can still dedupe.
+   * Returns the number of packets replayed.
+   */
+  public async replay(idempotencyKey?: string): Promise<number> {
+    const dead = await this.deadLetters()
+    const targets = idempotencyKey ? dead.filter(d => d.idempotencyKey === idempotencyKey) : dead
+    for (const letter of targets) {
+      await this.write(PENDING, {
+        idempotencyKey: letter.idempotencyKey,
+        packet: letter.packet,
+        attempts: 0,
+        enqueuedAt: letter.enqueuedAt,
+        nextAttemptAt: Date.now(),
+        lastStatus: letter.lastStatus,
+        lastError: letter.lastError,
+      })
+      await this.unlink(DEAD, letter.idempotencyKey)
+    }
+    if (targets.length) this.kick()
+    return targets.length
+  }
+
+  /** Permanently drop a dead letter */
+  public async purge(idempotencyKey: string): Promise<boolean> {
+    await this.init()
+    return this.unlink(DEAD, idempotencyKey)
+  }
+
+  /**
+   * Deliver every due packet once. Concurrent calls share the same pass, which
+   * runs again if it was requested while already in progress.
+   */
+  public drain(): Promise<void> {
+    if (this.draining) {
+      this.rerun = true
+      return this.draining
+    }
+    this.draining = (async () => {
+      do {
+        this.rerun = false
+        await this.deliverDue()
+      } while (this.rerun)
+    })().finally(() => {
+      this.draining = undefined
+    })
+    return this.draining
+  }
+
+  /** Background drain; failures go to `drainError` listeners, or the log without any */
+  private kick(): void {
+    this.drain().catch((err: any) => {
+      const error = err instanceof Error ? err : new Error(String(err))
+      if (this.listenerCount("drainError")) this.emit("drainError", error)
+      else console.error(`[SendPackOutbox] Delivery pass failed: ${error.message}`)
+    })
+  }
+
+  private async deliverDue(): Promise<void> {
+    const now = Date.now()
+    const due = (await this.pending()).filter(e => e.nextAttemptAt <= now).sort((a, b) => a.enqueuedAt - b.enqueuedAt)
+    for (let i = 0; i < due.length; i += this.concurrency) {
+      await Promise.all(due.slice(i, i + this.concurrency).map(entry => this.deliver(entry)))
+    }
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<void> {
+    let result: SendResult
+    try {
+      result = await this.sender.send(entry.packet, { idempotencyKey: entry.idempotencyKey })
+    } catch (err: any) {
+      result = { success: false, status: 0, error: err?.message ?? String(err), attempts: 1 }
+    }
+    const updated: OutboxEntry = {
+      ...entry,
+      attempts: entry.attempts + 1,
+      lastStatus: result.status,
+      lastError: result.error,
+    }
+
+    if (result.success) {
+      await this.unlink(PENDING, entry.idempotencyKey)
+      this.emit("delivered", updated, result)
+      return
+    }
+
+    const rejected = result.status > 0 && !isRetryableStatus(result.status)
+    if (rejected || updated.attempts >= this.maxAttempts) {
+      const dead: DeadLetter = { ...updated, deadAt: Date.now(), reason: rejected ? "rejected" : "max_attempts" }
+      await this.write(DEAD, dead)
+      await this.unlink(PENDING, entry.idempotencyKey)
+      this.emit("deadLettered", dead)
+      return
+    }
+
+    const delay = Math.min(this.baseDelayMs * 2 ** (updated.attempts - 1), this.maxDelayMs)
+    updated.nextAttemptAt = Date.now() + delay
+    await this.write(PENDING, updated)
+    this.emit("retrying", updated, result)
+  }
+
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = Promise.all([
+        fs.mkdir(path.join(this.opts.dir, PENDING), { recursive: true }),
+        fs.mkdir(path.join(this.opts.dir, DEAD), { recursive: true }),
+      ]).then(() => undefined)
+    }
+    return this.ready
+  }
+
+  private file(folder: string, key: string): string {
+    return path.join(this.opts.dir, folder, `${key}.json`)
+  }
+
+  /** Write via temp file + rename so a crash never leaves a half-written entry */
+  private async write(folder: string, entry: OutboxEntry): Promise<void> {
+    const target = this.file(folder, entry.idempotencyKey)
+    const tmp = `${target}.tmp`
+    const handle = await fs.open(tmp, "w")
+    try {
+      await handle.writeFile(JSON.stringify(entry))
+      await handle.sync()
+    } finally {
+      await handle.close()
+    }
+    await fs.rename(tmp, target)
+  }
+
+  private async unlink(folder: string, key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.file(folder, key))
+      return true
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return false
+      throw err
+    }
+  }
+
+  private async readAll<T>(folder: string): Promise<T[]> {
+    const dir = path.join(this.opts.dir, folder)
+    const names = (await fs.readdir(dir)).filter(n => n.endsWith(".json"))
+    const entries: T[] = []
+    for (const name of names) {
+      try {
+        entries.push(JSON.parse(await fs.readFile(path.join(dir, name), "utf8")))
+      } catch (err: any) {
+        // Removed by a concurrent pass, or unreadable; skip it this round
+        if (err?.code !== "ENOENT") console.warn(`[SendPackOutbox] Skipping unreadable entry ${name}: ${err?.message ?? err}`)
+      }
+    }
+    return entries
+  }
+}
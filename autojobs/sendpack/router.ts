@@ -0,0 +1,267 @@
+import { EventEmitter } from "events"
+import { Packet, PacketSchema, SendResult, isRetryableStatus } from "./sendpack"
+import { PacketSink } from "./sinks"
+
+/** Retry policy applied per destination, on top of the sink's own behaviour */
+export interface DestinationRetry {
+  /** Extra attempts after the first (default: 2) */
+  retries?: number
+  /** Delay before the first retry; multiplied by `factor` per retry (default: 500) */
+  backoffMs?: number
+  factor?: number
+  maxBackoffMs?: number
+}
+
+export interface BreakerOptions {
+  /** Consecutive failed attempts that open the circuit (default: 5) */
+  failureThreshold?: number
+  /** How long the circuit stays open before a trial attempt (default: 30s) */
+  resetTimeoutMs?: number
+}
+
+export interface Destination {
+  name: string
+  sink: PacketSink
+  retry?: DestinationRetry
+  breaker?: BreakerOptions
+}
+
+/**
+ * Condition on one payload field. A bare value means equality.
+ * Every operator given must hold.
+ */
+export type FieldCondition =
+  | string
+  | number
+  | boolean
+  | null
+  | {
+      eq?: unknown
+      ne?: unknown
+      in?: unknown[]
+      gt?: number
+      gte?: number
+      lt?: number
+      lte?: number
+      exists?: boolean
+      /** Regular expression tested against string values */
+      matches?: string
+    }
+
+export interface RouteRule {
+  name?: string
+  /** Payload fields (dot paths, e.g. "token.mint") that must all match; omit to match every packet */
+  when?: Record<string, FieldCondition>
+  /** Destination names */
+  to: string[]
+  /** Stop evaluating later rules once this one matches */
+  stop?: boolean
+}
+
+export interface RouterOptions {
+  rules: RouteRule[]
+  /** Destinations used when no rule matches (default: none, packet is dropped) */
+  fallback?: string[]
+}
+
+export interface RouteResult {
+  packetId: string
+  /** Names (or indexes) of the rules that matched */
+  rules: string[]
+  /** Outcome per destination */
+  deliveries: Record<string, SendResult>
+}
+
+export interface RouterEvents {
+  delivered: (destination: string, packet: Packet, result: SendResult) => void
+  failed: (destination: string, packet: Packet, result: SendResult) => void
+  circuitChange: (destination: string, state: CircuitState) => void
+}
+
+export type CircuitState = "closed" | "open" | "half-open"
+
+/**
+ * Consecutive-failure circuit breaker: opens after `failureThreshold` failures,
+ * lets a single trial through after `resetTimeoutMs`, and closes on its success
+ */
+export class CircuitBreaker {
+  private failures = 0
+  private openedAt = 0
+  private trialInFlight = false
+  private current: CircuitState = "closed"
+  private readonly failureThreshold: number
+  private readonly resetTimeoutMs: number
+
+  constructor(opts: BreakerOptions = {}, private readonly onChange?: (state: CircuitState) => void) {
+    this.failureThreshold = Math.max(1, opts.failureThreshold ?? 5)
+    this.resetTimeoutMs = Math.max(0, opts.resetTimeoutMs ?? 30_000)
+  }
+
+  get state(): CircuitState {
+    if (this.current === "open" && Date.now() - this.openedAt >= this.resetTimeoutMs) this.transition("half-open")
+    return this.current
+  }
+
+  /** Whether an attempt may go out now; claims the trial slot when half-open */
+  tryAcquire(): boolean {
+    const state = this.state
+    if (state === "closed") return true
+    if (state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true
+      return true
+    }
+    return false
+  }
+
+  recordSuccess(): void {
+    this.failures = 0
+    this.trialInFlight = false
+    this.transition("closed")
+  }
+
+  recordFailure(): void {
+    this.trialInFlight = false
+    this.failures++
+    if (this.current === "half-open" || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now()
+      this.transition("open")
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    if (this.current === state) return
+    this.current = state
+    this.onChange?.(state)
+  }
+}
+
+const valueAt = (payload: Record<string, unknown>, fieldPath: string): unknown =>
+  fieldPath.split(".").reduce<any>((acc, key) => (acc == null ? undefined : acc[key]), payload)
+
+function matchesCondition(value: unknown, cond: FieldCondition): boolean {
+  if (cond === null || typeof cond !== "object") return value === cond
+  if (cond.exists !== undefined && (value !== undefined) !== cond.exists) return false
+  if ("eq" in cond && value !== cond.eq) return false
+  if ("ne" in cond && value === cond.ne) return false
+  if (cond.in && !cond.in.includes(value)) return false
+  const num = typeof value === "number" ? value : NaN
+  if (cond.gt !== undefined && !(num > cond.gt)) return false
+  if (cond.gte !== undefined && !(num >= cond.gte)) return false
+  if (cond.lt !== undefined && !(num < cond.lt)) return false
+  if (cond.lte !== undefined && !(num <= cond.lte)) return false
+  if (cond.matches !== undefined && !(typeof value === "string" && new RegExp(cond.matches).test(value))) return false
+  return true
+}
+
+const sleep = (ms: number) => new Promise(res => setTimeout(res, ms))
+
+interface DestinationState {
+  destination: Destination
+  breaker: CircuitBreaker
+}
+
+/**
+ * Fans packets out to named destinations chosen by rules on payload fields.
+ * Each destination retries on its own policy and sits behind its own circuit
+ * breaker, so one dead sink neither blocks nor slows the others for long.
+ */
+export class SendPackRouter extends EventEmitter {
+  private readonly destinations = new Map<string, DestinationState>()
+
+  constructor(destinations: Destination[], private readonly opts: RouterOptions) {
+    super()
+    for (const destination of destinations) {
+      if (this.destinations.has(destination.name)) throw new Error(`Duplicate destination: ${destination.name}`)
+      const breaker = new CircuitBreaker(destination.breaker, state => this.emit("circuitChange", destination.name, state))
+      this.destinations.set(destination.name, { destination, breaker })
+    }
+    const referenced = [...opts.rules.flatMap(r => r.to), ...(opts.fallback ?? [])]
+    const unknown = referenced.filter(name => !this.destinations.has(name))
+    if (unknown.length) throw new Error(`Unknown destination(s) in routing rules: ${[...new Set(unknown)].join(", ")}`)
+    // Fail fast on invalid patterns rather than on the first packet
+    for (const rule of opts.rules) {
+      for (const cond of Object.values(rule.when ?? {})) {
+        if (cond && typeof cond === "object" && cond.matches !== undefined) new RegExp(cond.matches)
+      }
+    }
+  }
+
+  public override on<K extends keyof RouterEvents>(event: K, listener: RouterEvents[K]): this {
+    return super.on(event, listener as any)
+  }
+
+  /** Circuit state per destination */
+  public circuits(): Record<string, CircuitState> {
+    return Object.fromEntries(Array.from(this.destinations, ([name, s]) => [name, s.breaker.state]))
+  }
+
+  /**
+   * Destinations a packet would go to, with the rules that picked them
+   */
+  public resolve(packet: Packet): { rules: string[]; destinations: string[] } {
+    const rules: string[] = []
+    const targets = new Set<string>()
+    for (const [index, rule] of this.opts.rules.entries()) {
+      const when = Object.entries(rule.when ?? {})
+      if (!when.every(([field, cond]) => matchesCondition(valueAt(packet.payload, field), cond))) continue
+      rules.push(rule.name ?? String(index))
+      rule.to.forEach(name => targets.add(name))
+      if (rule.stop) break
+    }
+    if (!rules.length) this.opts.fallback?.forEach(name => targets.add(name))
+    return { rules, destinations: Array.from(targets) }
+  }
+
+  /**
+   * Deliver a packet to every matching destination in parallel. Never throws
+   * for delivery failures; inspect `deliveries` instead.
+   */
+  public async route(packet: Packet): Promise<RouteResult> {
+    const parsed = PacketSchema.safeParse(packet)
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      throw new Error(`Invalid packet: ${issues.join("; ")}`)
+    }
+    const { rules, destinations } = this.resolve(packet)
+    const results = await Promise.all(destinations.map(name => this.deliver(this.destinations.get(name)!, packet)))
+    return {
+      packetId: packet.id,
+      rules,
+      deliveries: Object.fromEntries(destinations.map((name, i) => [name, results[i]])),
+    }
+  }
+
+  private async deliver({ destination, breaker }: DestinationState, packet: Packet): Promise<SendResult> {
+    const retries = Math.max(0, destination.retry?.retries ?? 2)
+    const backoffMs = destination.retry?.backoffMs ?? 500
+    const factor = destination.retry?.factor ?? 2
+    const maxBackoffMs = destination.retry?.maxBackoffMs ?? 30_000
+
+    let attempts = 0
+    let result: SendResult = { success: false, status: 0, error: "Circuit open", attempts: 0 }
+    for (let i = 0; i <= retries; i++) {
+      if (i > 0) await sleep(Math.min(backoffMs * factor ** (i - 1), maxBackoffMs))
+      // Keeps the last failure, or "Circuit open" if nothing went out
+      if (!breaker.tryAcquire()) break
+      try {
+        result = await destination.sink.send(packet)
+      } catch (err: any) {
+        result = { success: false, status: 0, error: err?.message ?? String(err), attempts: 1 }
+      }
+      attempts += Math.max(1, result.attempts)
+
+      if (result.success) {
+        breaker.recordSuccess()
+        break
+      }
+      const retryable = result.status === 0 || isRetryableStatus(result.status)
+      // A 4xx means the destination is up but refused the packet
+      retryable ? breaker.recordFailure() : breaker.recordSuccess()
+      if (!retryable) break
+    }
+
+    result = { ...result, attempts }
+    this.emit(result.success ? "delivered" : "failed", destination.name, packet, result)
+    return result
+  }
+}
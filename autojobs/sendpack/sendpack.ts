@@ -2,6 +2,7 @@
 
 import fetch, { Response, HeadersInit } from "node-fetch"
 import { z } from "zod"
+import { SigningOptions, signatureHeaders } from "./signing"
 
 /** Packet payload */
 export interface Packet {
@@ -20,7 +21,7 @@ export interface SendResult {
 }
 
 /** Zod schema for Packet validation */
-const PacketSchema = z.object({
+export const PacketSchema = z.object({
   id: z.string().min(1),
   timestamp: z.number().int().nonnegative(),
   payload: z.record(z.unknown()),
@@ -37,8 +38,20 @@ export interface SendPackOptions {
   idempotencyKey?: string
   /** Custom user agent header */
   userAgent?: string
+  /** HMAC-SHA256 signing; receivers check it with verifySendPackSignature */
+  signing?: SigningOptions
 }
 
+/** Per-call overrides for SendPack.send */
+export interface SendOptions {
+  /** Idempotency-Key for this packet; overrides the instance-wide key */
+  idempotencyKey?: string
+}
+
+/** Retry rule shared with the outbox: 408, 425, 429, and all 5xx are retryable */
+export const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 425 || status === 429 || status >= 500
+
 const DEFAULT_RETRIES = 2
 const DEFAULT_TIMEOUT_MS = 5_000
 const DEFAULT_RETRY_DELAY_MS = 300
@@ -49,6 +62,7 @@ export class SendPack {
   private readonly retryDelayMs: number
   private readonly headers: Record<string, string>
   private readonly idempotencyKey?: string
+  private readonly signing?: SigningOptions
 
   constructor(private readonly endpoint: string, options: SendPackOptions = {}) {
     if (!endpoint) throw new Error("Endpoint URL is required")
@@ -59,6 +73,10 @@ export class SendPack {
     this.timeoutMs = Number.isInteger(options.timeoutMs) && options.timeoutMs! > 0 ? options.timeoutMs! : DEFAULT_TIMEOUT_MS
     this.retryDelayMs = Number.isInteger(options.retryDelayMs) && options.retryDelayMs! >= 0 ? options.retryDelayMs! : DEFAULT_RETRY_DELAY_MS
     this.idempotencyKey = options.idempotencyKey
+    if (options.signing && !options.signing.keys[options.signing.activeKeyId]) {
+      throw new Error(`Unknown signing key id: ${options.signing.activeKeyId}`)
+    }
+    this.signing = options.signing
 
     this.headers = {
       "Content-Type": "application/json",
@@ -78,13 +96,13 @@ export class SendPack {
   }
 
   /** Abortable fetch helper with timeout */
-  private async fetchWithTimeout(initBody: string): Promise<Response> {
+  private async fetchWithTimeout(initBody: string | Buffer, headers: Record<string, string>): Promise<Response> {
     const controller = new AbortController()
     const timer = setTimeout(() => controller.abort(), this.timeoutMs)
     try {
       return await fetch(this.endpoint, {
         method: "POST",
-        headers: this.headers as HeadersInit,
+        headers: headers as HeadersInit,
         body: initBody,
         signal: controller.signal,
       })
@@ -111,11 +129,6 @@ export class SendPack {
     }
   }
 
-  /** Retry rule: 408, 425, 429, and all 5xx are retryable */
-  private isRetryableStatus(status: number): boolean {
-    return status === 408 || status === 425 || status === 429 || status >= 500
-  }
-
   /** Deterministic linear backoff (no randomness) */
   private async backoff(attempt: number, retryAfterHeader?: string | null): Promise<void> {
     const retryAfter = Number(retryAfterHeader)
@@ -128,10 +141,27 @@ export class SendPack {
   /**
    * Send packet with validation, retries, timeout, and robust body parsing
    */
-  public async send(packet: Packet): Promise<SendResult> {
+  public async send(packet: Packet, options: SendOptions = {}): Promise<SendResult> {
     this.validatePacket(packet)
+    return this.sendRaw(
+      JSON.stringify(packet),
+      options.idempotencyKey ? { "Idempotency-Key": options.idempotencyKey } : {}
+    )
+  }
 
-    const body = JSON.stringify(packet)
+  /**
+   * POST a pre-encoded body (e.g. a compressed batch) with the same retries,
+   * timeout and signing as send; `extraHeaders` override the instance headers.
+   * The signature covers `signedBody`, which is the body itself unless given:
+   * a compressed body passes its uncompressed bytes, since that is what the
+   * receiver's body parser hands to `captureRawBody` after inflating.
+   */
+  public async sendRaw(
+    body: string | Buffer,
+    extraHeaders: Record<string, string> = {},
+    signedBody: string | Buffer = body
+  ): Promise<SendResult> {
+    const headers = { ...this.headers, ...extraHeaders }
     let attempt = 0
     let lastStatus = 0
     let lastError: string | undefined
@@ -140,7 +170,11 @@ export class SendPack {
     while (attempt <= this.retries) {
       attempt++
       try {
-        const res = await this.fetchWithTimeout(body)
+        // Re-sign every attempt: a fresh nonce and timestamp keep retries clear of the replay check
+        const res = await this.fetchWithTimeout(
+          body,
+          this.signing ? { ...headers, ...signatureHeaders(this.signing, signedBody) } : headers
+        )
         lastStatus = res.status
         lastBody = await this.parseResponseBody(res)
 
@@ -149,7 +183,7 @@ export class SendPack {
         }
 
         lastError = `HTTP ${res.status}${lastBody ? `: ${typeof lastBody === "string" ? lastBody : JSON.stringify(lastBody)}` : ""}`
-        if (!this.isRetryableStatus(res.status) || attempt > this.retries) {
+        if (!isRetryableStatus(res.status) || attempt > this.retries) {
           break
         }
         await this.backoff(attempt, res.headers.get("retry-after"))
@@ -0,0 +1,158 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto"
+import type { Request, Response, NextFunction, RequestHandler } from "express"
+
+export const SIGNATURE_HEADER = "X-SendPack-Signature"
+export const TIMESTAMP_HEADER = "X-SendPack-Timestamp"
+export const KEY_ID_HEADER = "X-SendPack-Key-Id"
+export const NONCE_HEADER = "X-SendPack-Nonce"
+
+/** Signature scheme version prefix, e.g. `v2=<hex>`; v2 signs a per-attempt nonce */
+const SCHEME = "v2"
+
+/** Nonces are opaque to the receiver but bounded so they cannot bloat the replay cache */
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{8,128}$/
+
+/** Secrets by key id; keep the previous key listed while rotating */
+export type SigningKeys = Record<string, string>
+
+export interface SigningOptions {
+  keys: SigningKeys
+  /** Key used to sign outgoing packets */
+  activeKeyId: string
+}
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${nonce}.${body}`, hex encoded
+ */
+export function computeSignature(secret: string, timestamp: number, nonce: string, body: string | Buffer): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${nonce}.`)
+    .update(body)
+    .digest("hex")
+}
+
+/**
+ * Signature headers for an outgoing body; timestamp in Unix seconds. Every
+ * call draws a new nonce, so a retry within the same second is still a
+ * distinct request to the receiver's replay check.
+ */
+export function signatureHeaders(
+  signing: SigningOptions,
+  body: string | Buffer,
+  now = Date.now(),
+  nonce: string = randomUUID()
+): Record<string, string> {
+  const secret = signing.keys[signing.activeKeyId]
+  if (!secret) throw new Error(`Unknown signing key id: ${signing.activeKeyId}`)
+  const timestamp = Math.floor(now / 1000)
+  return {
+    [SIGNATURE_HEADER]: `${SCHEME}=${computeSignature(secret, timestamp, nonce, body)}`,
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [NONCE_HEADER]: nonce,
+    [KEY_ID_HEADER]: signing.activeKeyId,
+  }
+}
+
+/**
+ * Parse "id1:secret1,id2:secret2" (e.g. from SENDPACK_SIGNING_KEYS)
+ */
+export function parseSigningKeys(raw: string | undefined): SigningKeys | undefined {
+  if (!raw?.trim()) return
+  const keys: SigningKeys = {}
+  for (const pair of raw.split(",")) {
+    const idx = pair.indexOf(":")
+    if (idx <= 0 || idx === pair.length - 1) throw new Error(`Malformed signing key entry: "${pair.trim()}"`)
+    keys[pair.slice(0, idx).trim()] = pair.slice(idx + 1).trim()
+  }
+  return keys
+}
+
+/** Raw request body, captured by `captureRawBody` */
+export type RequestWithRawBody = Request & { rawBody?: Buffer }
+
+/**
+ * `verify` hook for express body parsers that keeps the exact bytes for
+ * signature checks, after any Content-Encoding is inflated:
+ * `app.use(express.json({ verify: captureRawBody }))`. express.json skips
+ * NDJSON batches; receivers of those also need
+ * `app.use(express.text({ type: "application/x-ndjson", verify: captureRawBody }))`.
+ */
+export function captureRawBody(req: any, _res: any, buf: Buffer): void {
+  req.rawBody = Buffer.from(buf)
+}
+
+export interface VerifyOptions {
+  keys: SigningKeys
+  /** Max clock difference accepted, in seconds (default: 300) */
+  toleranceSec?: number
+}
+
+/**
+ * Express middleware accepting only packets signed by SendPack with one of `keys`.
+ * Rejects stale or future timestamps outside the tolerance window and replays of
+ * a nonce already accepted inside it. A nonce is only used up once the handler
+ * answers 2xx, so a request that failed can be retried. Requires
+ * `captureRawBody` on the body parser for every content type it accepts.
+ */
+export function verifySendPackSignature(opts: VerifyOptions): RequestHandler {
+  const toleranceSec = opts.toleranceSec ?? 300
+  /** keyId:nonce -> expiry (ms); entries outlive the window by design */
+  const seen = new Map<string, number>()
+  /** Nonces of requests still being handled, so a concurrent duplicate cannot slip in */
+  const inFlight = new Set<string>()
+
+  const reject = (res: Response, reason: string) =>
+    res.status(401).json({ success: false, error: "invalid_signature", message: reason })
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const rawBody = (req as RequestWithRawBody).rawBody
+    if (!rawBody) {
+      return next(
+        new Error(
+          `verifySendPackSignature requires a body parser with { verify: captureRawBody } for ${req.header("content-type") ?? "this request"}`
+        )
+      )
+    }
+
+    const keyId = req.header(KEY_ID_HEADER)
+    const header = req.header(SIGNATURE_HEADER)
+    const timestamp = Number(req.header(TIMESTAMP_HEADER))
+    const nonce = req.header(NONCE_HEADER)
+    if (!keyId || !header || !nonce || !Number.isInteger(timestamp)) return reject(res, "missing signature headers")
+    if (!NONCE_PATTERN.test(nonce)) return reject(res, "malformed nonce")
+
+    const secret = opts.keys[keyId]
+    if (!secret) return reject(res, "unknown key id")
+
+    const nowMs = Date.now()
+    if (Math.abs(nowMs / 1000 - timestamp) > toleranceSec) return reject(res, "timestamp outside tolerance")
+
+    const [scheme, provided] = header.split("=", 2)
+    if (scheme !== SCHEME || !provided) return reject(res, "unsupported signature scheme")
+
+    const expected = Buffer.from(computeSignature(secret, timestamp, nonce, rawBody), "hex")
+    const actual = Buffer.from(provided, "hex")
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return reject(res, "signature mismatch")
+    }
+
+    for (const [id, expiry] of seen) {
+      if (expiry <= nowMs) seen.delete(id)
+    }
+    const replayId = `${keyId}:${nonce}`
+    if (seen.has(replayId) || inFlight.has(replayId)) return reject(res, "replayed request")
+
+    inFlight.add(replayId)
+    const settle = () => {
+      if (!inFlight.delete(replayId)) return
+      // Only an accepted request uses the nonce up; a 5xx or aborted one may be retried as-is
+      if (res.statusCode >= 200 && res.statusCode < 300 && res.writableFinished) {
+        seen.set(replayId, Date.now() + toleranceSec * 2 * 1000)
+      }
+    }
+    res.on("finish", settle)
+    res.on("close", settle)
+
+    next()
+  }
+}
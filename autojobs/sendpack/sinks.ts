@@ -0,0 +1,79 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { Packet, SendPack, SendPackOptions, SendResult } from "./sendpack"
+
+/**
+ * A destination packets can be fanned out to. Non-HTTP sinks report status 0.
+ */
+export interface PacketSink {
+  send(packet: Packet): Promise<SendResult>
+}
+
+/**
+ * Internal webhook receiving the packet as-is. Retries default to 0 so the
+ * router's per-destination retry policy is the only one in play.
+ */
+export class WebhookSink implements PacketSink {
+  private readonly sender: SendPack
+
+  constructor(endpoint: string, options: SendPackOptions = {}) {
+    this.sender = new SendPack(endpoint, { retries: 0, ...options })
+  }
+
+  send(packet: Packet): Promise<SendResult> {
+    return this.sender.send(packet)
+  }
+}
+
+export interface SlackSinkOptions extends SendPackOptions {
+  /** Message text for a packet (default: "[severity] id: message") */
+  format?: (packet: Packet) => string
+}
+
+const defaultSlackText = (packet: Packet): string => {
+  const { severity, message } = packet.payload
+  const prefix = severity ? `[${String(severity).toUpperCase()}] ` : ""
+  const body = typeof message === "string" ? message : JSON.stringify(packet.payload)
+  return `${prefix}${packet.id}: ${body}`
+}
+
+/**
+ * Slack-compatible incoming webhook (`{ text }` body); works with Mattermost,
+ * Rocket.Chat and other services speaking the same format
+ */
+export class SlackSink implements PacketSink {
+  private readonly sender: SendPack
+  private readonly format: (packet: Packet) => string
+
+  constructor(webhookUrl: string, { format, ...options }: SlackSinkOptions = {}) {
+    this.sender = new SendPack(webhookUrl, { retries: 0, ...options })
+    this.format = format ?? defaultSlackText
+  }
+
+  send(packet: Packet): Promise<SendResult> {
+    return this.sender.sendRaw(JSON.stringify({ text: this.format(packet) }))
+  }
+}
+
+/**
+ * Appends each packet as one NDJSON line to a local file
+ */
+export class FileSink implements PacketSink {
+  private ready?: Promise<unknown>
+
+  constructor(private readonly filePath: string) {
+    if (!filePath) throw new Error("File sink path is required")
+  }
+
+  async send(packet: Packet): Promise<SendResult> {
+    try {
+      this.ready ??= fs.mkdir(path.dirname(this.filePath), { recursive: true })
+      await this.ready
+      await fs.appendFile(this.filePath, JSON.stringify(packet) + "\n", "utf8")
+      return { success: true, status: 0, attempts: 1 }
+    } catch (err: any) {
+      this.ready = undefined
+      return { success: false, status: 0, error: err?.message ?? String(err), attempts: 1 }
+    }
+  }
+}
@@ -1,31 +1,39 @@
+import { JobStatus, JobTracker } from "../../jobtracker/jobTracker"
+import { sharedTracker } from "../../jobtracker/sharedTracker"
+import { TASK_JOB_TYPE, isTaskJob, toTask } from "../../jobtracker/jobAdapters"
+
 export interface Task {
   id: string
   title: string
   payload?: any
   createdAt: number
+  /** Job type; "task" for tasks created here */
+  type?: string
+  status: JobStatus
 }
 
+/**
+ * Task facade over the shared JobTracker
+ */
 export class TaskManager {
-  private tasks: Task[] = []
+  constructor(private readonly tracker: JobTracker = sharedTracker()) {}
 
   create(title: string, payload?: any): Task {
-    const task: Task = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
-      title,
-      payload,
-      createdAt: Date.now()
-    }
-    this.tasks.push(task)
-    return task
+    const job = this.tracker.create(title, { type: TASK_JOB_TYPE, payload })
+    return toTask(job)
   }
 
+  /** Tasks created through TaskManager */
   list(): Task[] {
-    return [...this.tasks]
+    return this.tracker.list().filter(isTaskJob).map(toTask)
+  }
+
+  /** Every job in the tracker (tasks, hub tasks, runner jobs) viewed as tasks */
+  listAll(): Task[] {
+    return this.tracker.list().map(toTask)
   }
 
   remove(id: string): boolean {
-    const before = this.tasks.length
-    this.tasks = this.tasks.filter(t => t.id !== id)
-    return this.tasks.length < before
+    return this.tracker.remove(id)
   }
 }
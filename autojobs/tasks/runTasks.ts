@@ -1,15 +1,24 @@
 import readline from "readline"
 import { TaskManager } from "./TaskManager"
+import { MainHubService } from "../mainhub/MainHubService"
+import { Scheduler } from "../scheduler/Scheduler"
+import { ScheduleStore } from "../scheduler/scheduleStore"
 
 const manager = new TaskManager()
+const hub = new MainHubService()
+// Read-only view: timers are not started here, the tasks API owns them
+const scheduleStore = new ScheduleStore(process.env.SCHEDULES_PATH)
+const scheduler = new Scheduler(hub, scheduleStore)
 const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
 
 function menu() {
   console.log(`
-1) List tasks
+1) List all jobs
 2) Create task
 3) Remove task
-4) Exit
+4) Run hub task
+5) List schedules
+6) Exit
 `)
   rl.question("Choose: ", handle)
 }
@@ -17,7 +26,7 @@ function menu() {
 async function handle(choice: string) {
   switch (choice.trim()) {
     case "1":
-      console.table(manager.list())
+      console.table(manager.listAll())
       break
     case "2":
       rl.question("Title: ", title => {
@@ -38,6 +47,36 @@ async function handle(choice: string) {
       })
       return
     case "4":
+      rl.question("Hub task type: ", type => {
+        rl.question("Params (JSON): ", async json => {
+          let params: Record<string, any> = {}
+          try { params = json.trim() ? JSON.parse(json) : {} } catch { console.log("Invalid JSON"); return menu() }
+          try {
+            const task = hub.createTask(type.trim(), params)
+            console.log("Finished:", await hub.runTask(task.id))
+          } catch (err: any) {
+            console.log("Failed:", err?.message ?? err)
+          }
+          menu()
+        })
+      })
+      return
+    case "5":
+      scheduleStore.reload()
+      console.table(
+        scheduler.list().map(s => ({
+          id: s.id,
+          name: s.name ?? "",
+          taskType: s.taskType,
+          trigger: s.cron ?? `every ${s.intervalMs}ms`,
+          overlap: s.overlap,
+          enabled: s.enabled,
+          lastRunAt: s.lastRunAt ? new Date(s.lastRunAt).toISOString() : "",
+          nextRunAt: s.nextRunAt ? new Date(s.nextRunAt).toISOString() : "",
+        }))
+      )
+      break
+    case "6":
       rl.close()
       return
     default:
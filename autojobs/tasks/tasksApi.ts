@@ -1,12 +1,60 @@
 import express from "express"
+import { z } from "zod"
 import { TaskManager } from "./TaskManager"
+import { MainHubService } from "../mainhub/MainHubService"
+import { Scheduler } from "../scheduler/Scheduler"
+import { ScheduleStore } from "../scheduler/scheduleStore"
+import { PacketSchema } from "../sendpack/sendpack"
+import { captureRawBody, parseSigningKeys, verifySendPackSignature } from "../sendpack/signing"
 
 const app = express()
-app.use(express.json())
+// Raw body kept for SendPack signature verification
+app.use(express.json({ verify: captureRawBody }))
 const manager = new TaskManager()
+const hub = new MainHubService()
+// SCHEDULES_PATH persists schedules so restarts can catch up and the CLI can list them
+const scheduler = new Scheduler(hub, new ScheduleStore(process.env.SCHEDULES_PATH))
+
+const scheduleSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  taskType: z.string().min(1),
+  params: z.record(z.any()).optional(),
+  cron: z.string().min(1).optional(),
+  intervalMs: z.number().int().positive().optional(),
+  jitterMs: z.number().int().nonnegative().optional(),
+  overlap: z.enum(["skip", "queue", "cancel-previous"]).optional(),
+  catchUp: z.enum(["none", "latest", "all"]).optional(),
+  maxCatchUp: z.number().int().min(1).max(1000).optional(),
+  enabled: z.boolean().optional(),
+})
+
+const pipelineSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  concurrency: z.number().int().min(1).max(32).optional(),
+  nodes: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        type: z.string().min(1),
+        params: z.record(z.any()).optional(),
+        dependsOn: z.array(z.string().min(1)).optional(),
+      })
+    )
+    .min(1),
+})
+
+const invalid = (res: express.Response, err: unknown) => {
+  const error =
+    err instanceof z.ZodError
+      ? err.issues.map(i => `${i.path.join(".") || "body"}: ${i.message}`).join("; ")
+      : (err as Error).message
+  res.status(400).json({ success: false, error })
+}
 
 app.get("/tasks", (req, res) => {
-  res.json({ success: true, tasks: manager.list() })
+  // ?all=true lists every tracked job (hub tasks, runner jobs) in the same shape
+  const tasks = req.query.all === "true" ? manager.listAll() : manager.list()
+  res.json({ success: true, tasks })
 })
 
 app.post("/tasks", (req, res) => {
@@ -16,10 +64,115 @@ app.post("/tasks", (req, res) => {
   res.status(201).json({ success: true, task })
 })
 
+// Signed intake: a SendPack packet becomes a task ("keyId:secret,..." in SENDPACK_SIGNING_KEYS)
+const signingKeys = parseSigningKeys(process.env.SENDPACK_SIGNING_KEYS)
+if (signingKeys) {
+  app.post("/packets", verifySendPackSignature({ keys: signingKeys }), (req, res) => {
+    const parsed = PacketSchema.safeParse(req.body)
+    if (!parsed.success) return invalid(res, parsed.error)
+    const { id, payload } = parsed.data
+    const title = typeof payload.title === "string" && payload.title ? payload.title : `packet ${id}`
+    const task = manager.create(title, payload)
+    res.status(201).json({ success: true, task })
+  })
+}
+
 app.delete("/tasks/:id", (req, res) => {
   const ok = manager.remove(req.params.id)
   ok ? res.json({ success: true }) : res.status(404).json({ success: false, error: "not found" })
 })
 
+app.get("/hub/tasks", (req, res) => {
+  res.json({ success: true, tasks: hub.listTasks() })
+})
+
+app.get("/hub/task-types", (req, res) => {
+  res.json({ success: true, types: hub.taskTypes() })
+})
+
+app.post("/hub/tasks", (req, res) => {
+  const { type, params } = req.body
+  if (!hub.hasTaskType(type)) {
+    return res.status(400).json({ success: false, error: "unknown task type", types: hub.taskTypes() })
+  }
+  let task
+  try {
+    task = hub.createTask(type, params ?? {})
+  } catch (err) {
+    return invalid(res, err)
+  }
+  // Runs in the background; poll GET /hub/tasks or the jobs API for the outcome
+  hub.runTask(task.id).catch(err => console.error(`Hub task ${task.id} failed:`, err))
+  res.status(202).json({ success: true, task })
+})
+
+app.post("/hub/pipelines", (req, res) => {
+  try {
+    const run = hub.startPipeline(pipelineSchema.parse(req.body))
+    res.status(202).json({ success: true, run })
+  } catch (err) {
+    invalid(res, err)
+  }
+})
+
+app.get("/hub/pipelines/:id", (req, res) => {
+  const run = hub.getPipelineRun(req.params.id)
+  run ? res.json({ success: true, run }) : res.status(404).json({ success: false, error: "not found" })
+})
+
+// Rerun from the failed node(s); completed nodes keep their outputs
+app.post("/hub/pipelines/:id/resume", (req, res) => {
+  const previous = hub.getPipelineRun(req.params.id)
+  if (!previous) return res.status(404).json({ success: false, error: "not found" })
+  if (previous.status === "running") {
+    return res.status(409).json({ success: false, error: "pipeline run still in progress" })
+  }
+  const run = hub.startPipeline(previous.definition, previous.id)
+  res.status(202).json({ success: true, run })
+})
+
+app.get("/schedules", (req, res) => {
+  res.json({ success: true, schedules: scheduler.list() })
+})
+
+app.post("/schedules", (req, res) => {
+  try {
+    const schedule = scheduler.add(scheduleSchema.parse(req.body))
+    res.status(201).json({ success: true, schedule: scheduler.get(schedule.id) })
+  } catch (err) {
+    invalid(res, err)
+  }
+})
+
+app.get("/schedules/:id", (req, res) => {
+  const schedule = scheduler.get(req.params.id)
+  schedule ? res.json({ success: true, schedule }) : res.status(404).json({ success: false, error: "not found" })
+})
+
+app.patch("/schedules/:id", (req, res) => {
+  try {
+    const updated = scheduler.update(req.params.id, scheduleSchema.partial().parse(req.body))
+    if (!updated) return res.status(404).json({ success: false, error: "not found" })
+    res.json({ success: true, schedule: scheduler.get(updated.id) })
+  } catch (err) {
+    invalid(res, err)
+  }
+})
+
+app.delete("/schedules/:id", (req, res) => {
+  const ok = scheduler.remove(req.params.id)
+  ok ? res.json({ success: true }) : res.status(404).json({ success: false, error: "not found" })
+})
+
+app.post("/schedules/:id/run", (req, res) => {
+  if (!scheduler.get(req.params.id)) return res.status(404).json({ success: false, error: "not found" })
+  const task = scheduler.trigger(req.params.id)
+  // No task means the overlap policy skipped or queued this fire
+  res.status(202).json({ success: true, task: task ?? null, schedule: scheduler.get(req.params.id) })
+})
+
 const port = process.env.PORT || 3000
-app.listen(port, () => console.log(`Tasks API listening on port ${port}`))
+app.listen(port, () => {
+  scheduler.start()
+  console.log(`Tasks API listening on port ${port}`)
+})
@@ -0,0 +1,230 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from "zod"
+
+export const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema"
+
+/** A JSON Schema (draft 2020-12) document or subschema */
+export type JsonSchema = { [keyword: string]: unknown }
+
+export interface JsonSchemaOptions {
+  /**
+   * "input" describes what the schema accepts (defaults and optionals are not
+   * required, transforms show their input); "output" what parse returns
+   * (default: "input")
+   */
+  io?: "input" | "output"
+  /** Add the `$schema` dialect keyword at the root (default: true) */
+  dialect?: boolean
+}
+
+interface Context {
+  io: "input" | "output"
+  /** Lazy schemas being expanded, to cut recursive definitions */
+  seen: Set<ZodTypeAny>
+}
+
+const withDescription = (schema: ZodTypeAny, json: JsonSchema): JsonSchema =>
+  schema.description ? { ...json, description: schema.description } : json
+
+/** Whether an object property may be omitted in the chosen direction */
+function isOptional(schema: ZodTypeAny, ctx: Context): boolean {
+  const def = schema._def
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return true
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodCatch:
+      return ctx.io === "input"
+    case ZodFirstPartyTypeKind.ZodEffects:
+    case ZodFirstPartyTypeKind.ZodBranded:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return ctx.io === "input" && isOptional(def.schema ?? def.type ?? def.innerType, ctx)
+    default:
+      // e.g. unions with undefined; transforms may throw on unexpected input
+      try {
+        return ctx.io === "input" && schema.safeParse(undefined).success
+      } catch {
+        return false
+      }
+  }
+}
+
+function nullable(inner: JsonSchema): JsonSchema {
+  if (typeof inner.type === "string" && Object.keys(inner).every(k => k === "type" || k === "description")) {
+    return { ...inner, type: [inner.type, "null"] }
+  }
+  return { anyOf: [inner, { type: "null" }] }
+}
+
+function stringSchema(def: any): JsonSchema {
+  const json: JsonSchema = { type: "string" }
+  for (const check of def.checks ?? []) {
+    switch (check.kind) {
+      case "min": json.minLength = check.value; break
+      case "max": json.maxLength = check.value; break
+      case "length": json.minLength = json.maxLength = check.value; break
+      case "email": json.format = "email"; break
+      case "url": json.format = "uri"; break
+      case "uuid": json.format = "uuid"; break
+      case "datetime": json.format = "date-time"; break
+      case "date": json.format = "date"; break
+      case "time": json.format = "time"; break
+      case "ip": json.format = check.version === "v6" ? "ipv6" : "ipv4"; break
+      case "regex": json.pattern = check.regex.source; break
+      case "startsWith": json.pattern = `^${escapeRegex(check.value)}`; break
+      case "endsWith": json.pattern = `${escapeRegex(check.value)}$`; break
+      case "includes": json.pattern = escapeRegex(check.value); break
+      case "base64": json.contentEncoding = "base64"; break
+    }
+  }
+  return json
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+function numberSchema(def: any): JsonSchema {
+  const json: JsonSchema = { type: "number" }
+  for (const check of def.checks ?? []) {
+    switch (check.kind) {
+      case "int": json.type = "integer"; break
+      case "min": json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value; break
+      case "max": json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value; break
+      case "multipleOf": json.multipleOf = check.value; break
+    }
+  }
+  return json
+}
+
+function convert(schema: ZodTypeAny, ctx: Context): JsonSchema {
+  return withDescription(schema, convertDef(schema, ctx))
+}
+
+function convertDef(schema: ZodTypeAny, ctx: Context): JsonSchema {
+  const def = schema._def
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return stringSchema(def)
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return numberSchema(def)
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: "integer", format: "int64" }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" }
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time" }
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" }
+    case ZodFirstPartyTypeKind.ZodUndefined:
+    case ZodFirstPartyTypeKind.ZodVoid:
+    case ZodFirstPartyTypeKind.ZodNever:
+      return { not: {} }
+    case ZodFirstPartyTypeKind.ZodAny:
+    case ZodFirstPartyTypeKind.ZodUnknown:
+      return {}
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return def.value === undefined ? { not: {} } : { const: def.value }
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: [...def.values] }
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric TS enums carry reverse mappings; keep only the real values
+      const values = Object.entries(def.values as Record<string, string | number>)
+        .filter(([key]) => typeof (def.values as any)[(def.values as any)[key]] !== "number")
+        .map(([, value]) => value)
+      const types = Array.from(new Set(values.map(v => (typeof v === "number" ? "number" : "string"))))
+      return { type: types.length === 1 ? types[0] : types, enum: values }
+    }
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape()
+      const properties: Record<string, JsonSchema> = {}
+      const required: string[] = []
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = convert(value, ctx)
+        if (!isOptional(value, ctx)) required.push(key)
+      }
+      const json: JsonSchema = { type: "object", properties }
+      if (required.length) json.required = required
+      const catchall = def.catchall as ZodTypeAny | undefined
+      if (catchall && catchall._def.typeName !== ZodFirstPartyTypeKind.ZodNever) {
+        json.additionalProperties = convert(catchall, ctx)
+      } else if (def.unknownKeys === "strict") {
+        json.additionalProperties = false
+      }
+      return json
+    }
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const json: JsonSchema = { type: "array", items: convert(def.type, ctx) }
+      if (def.minLength) json.minItems = def.minLength.value
+      if (def.maxLength) json.maxItems = def.maxLength.value
+      if (def.exactLength) json.minItems = json.maxItems = def.exactLength.value
+      return json
+    }
+    case ZodFirstPartyTypeKind.ZodTuple: {
+      const prefixItems = (def.items as ZodTypeAny[]).map(item => convert(item, ctx))
+      return {
+        type: "array",
+        prefixItems,
+        minItems: prefixItems.length,
+        ...(def.rest ? { items: convert(def.rest, ctx) } : { items: false, maxItems: prefixItems.length }),
+      }
+    }
+    case ZodFirstPartyTypeKind.ZodSet: {
+      const json: JsonSchema = { type: "array", uniqueItems: true, items: convert(def.valueType, ctx) }
+      if (def.minSize) json.minItems = def.minSize.value
+      if (def.maxSize) json.maxItems = def.maxSize.value
+      return json
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+    case ZodFirstPartyTypeKind.ZodMap: {
+      const json: JsonSchema = { type: "object", additionalProperties: convert(def.valueType, ctx) }
+      const keys = convert(def.keyType, ctx)
+      if (keys.enum || keys.pattern || keys.format || keys.minLength || keys.maxLength) {
+        json.propertyNames = { ...keys, type: "string" }
+      }
+      return json
+    }
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: (def.options as ZodTypeAny[]).map(option => convert(option, ctx)) }
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { oneOf: Array.from(def.options as Iterable<ZodTypeAny>, option => convert(option, ctx)) }
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [convert(def.left, ctx), convert(def.right, ctx)] }
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return convert(def.innerType, ctx)
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return nullable(convert(def.innerType, ctx))
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...convert(def.innerType, ctx), default: def.defaultValue() }
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return convert(def.innerType, ctx)
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return convert(def.type, ctx)
+    case ZodFirstPartyTypeKind.ZodEffects:
+      // Refinements keep the inner shape; a transform's output shape is unknowable
+      if (ctx.io === "output" && def.effect.type === "transform") return {}
+      return convert(def.schema, ctx)
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return convert(ctx.io === "input" ? def.in : def.out, ctx)
+    case ZodFirstPartyTypeKind.ZodLazy: {
+      if (ctx.seen.has(schema)) return {}
+      ctx.seen.add(schema)
+      try {
+        return convert(def.getter(), ctx)
+      } finally {
+        ctx.seen.delete(schema)
+      }
+    }
+    case ZodFirstPartyTypeKind.ZodPromise:
+      return convert(def.type, ctx)
+    default:
+      return {}
+  }
+}
+
+/**
+ * Convert a zod schema to JSON Schema draft 2020-12. Refinements that JSON
+ * Schema cannot express are kept as their base type.
+ */
+export function toJsonSchema(schema: ZodTypeAny, opts: JsonSchemaOptions = {}): JsonSchema {
+  const json = convert(schema, { io: opts.io ?? "input", seen: new Set() })
+  return opts.dialect === false ? json : { $schema: JSON_SCHEMA_DIALECT, ...json }
+}
@@ -0,0 +1,150 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from "zod"
+import { JsonSchema, toJsonSchema } from "./jsonSchema"
+
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete"
+
+export interface OpenApiInfo {
+  title: string
+  version: string
+  description?: string
+}
+
+export interface OpenApiResponse {
+  description: string
+  /** JSON response body */
+  schema?: ZodTypeAny | JsonSchema
+  /** Content type of the body (default: application/json) */
+  contentType?: string
+}
+
+export interface OpenApiOperation {
+  summary?: string
+  description?: string
+  tags?: string[]
+  operationId?: string
+  /** Object schema of the path parameters */
+  params?: ZodTypeAny
+  /** Object schema of the query string */
+  query?: ZodTypeAny
+  /** Object schema of the documented request headers */
+  headers?: ZodTypeAny
+  /** JSON request body */
+  body?: ZodTypeAny
+  responses: { [status: number]: OpenApiResponse; default?: OpenApiResponse }
+}
+
+const isZod = (s: unknown): s is ZodTypeAny => !!s && typeof (s as ZodTypeAny).safeParse === "function"
+
+/** Express-style `/jobs/:id` to OpenAPI `/jobs/{id}` */
+const openApiPath = (path: string) => path.replace(/:([A-Za-z0-9_]+)/g, "{$1}")
+
+/** Unwrap effects/defaults/optionals down to the object schema, if any */
+function objectShape(schema: ZodTypeAny): Record<string, ZodTypeAny> | undefined {
+  const def = schema._def
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodObject:
+      return def.shape()
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return objectShape(def.schema)
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return objectShape(def.innerType)
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Builds an OpenAPI 3.1 document from the zod schemas a service already
+ * validates with. 3.1 uses JSON Schema 2020-12, so schemas embed as-is.
+ */
+export class OpenApiBuilder {
+  private readonly paths: Record<string, Record<string, unknown>> = {}
+  private readonly schemas: Record<string, JsonSchema> = {}
+  private readonly servers: { url: string; description?: string }[] = []
+
+  constructor(private readonly info: OpenApiInfo) {}
+
+  server(url: string, description?: string): this {
+    this.servers.push({ url, description })
+    return this
+  }
+
+  /**
+   * Register a named component; use the returned `$ref` in responses
+   */
+  component(name: string, schema: ZodTypeAny): JsonSchema {
+    this.schemas[name] = toJsonSchema(schema, { io: "output", dialect: false })
+    return { $ref: `#/components/schemas/${name}` }
+  }
+
+  route(method: HttpMethod, path: string, op: OpenApiOperation): this {
+    const parameters = [
+      ...this.parameters("path", op.params),
+      ...this.parameters("query", op.query),
+      ...this.parameters("header", op.headers),
+    ]
+    const responses = Object.fromEntries(
+      Object.entries(op.responses).map(([status, res]) => [
+        status,
+        {
+          description: res.description,
+          ...(res.schema
+            ? { content: { [res.contentType ?? "application/json"]: { schema: this.schemaOf(res.schema, "output") } } }
+            : {}),
+        },
+      ])
+    )
+    const operation: Record<string, unknown> = {
+      ...(op.summary ? { summary: op.summary } : {}),
+      ...(op.description ? { description: op.description } : {}),
+      ...(op.tags ? { tags: op.tags } : {}),
+      ...(op.operationId ? { operationId: op.operationId } : {}),
+      ...(parameters.length ? { parameters } : {}),
+      ...(op.body
+        ? {
+            requestBody: {
+              required: !op.body.isOptional(),
+              content: { "application/json": { schema: this.schemaOf(op.body, "input") } },
+            },
+          }
+        : {}),
+      responses,
+    }
+    const key = openApiPath(path)
+    this.paths[key] = { ...this.paths[key], [method]: operation }
+    return this
+  }
+
+  build(): Record<string, unknown> {
+    return {
+      openapi: "3.1.0",
+      info: this.info,
+      ...(this.servers.length ? { servers: this.servers } : {}),
+      paths: this.paths,
+      ...(Object.keys(this.schemas).length ? { components: { schemas: this.schemas } } : {}),
+    }
+  }
+
+  private schemaOf(schema: ZodTypeAny | JsonSchema, io: "input" | "output"): JsonSchema {
+    return isZod(schema) ? toJsonSchema(schema, { io, dialect: false }) : schema
+  }
+
+  private parameters(location: "path" | "query" | "header", schema?: ZodTypeAny): unknown[] {
+    if (!schema) return []
+    const shape = objectShape(schema)
+    if (!shape) throw new Error(`OpenAPI ${location} parameters must be an object schema`)
+    return Object.entries(shape).map(([name, field]) => {
+      const json = toJsonSchema(field, { dialect: false })
+      const { description, ...rest } = json
+      return {
+        name,
+        in: location,
+        required: location === "path" || !field.isOptional(),
+        ...(description ? { description } : {}),
+        schema: rest,
+      }
+    })
+  }
+}
@@ -1,8 +1,10 @@
 
-import { z, ZodType, ZodSchema } from "zod"
+import { z, ZodType, ZodSchema, ZodTypeDef } from "zod"
+import { JsonSchema, JsonSchemaOptions, toJsonSchema } from "./jsonSchema"
 
 export class TypeStruct<T> {
-  constructor(public schema: ZodSchema<T>) {}
+  /** T is the parsed (output) type, so schemas with defaults/transforms keep precise types */
+  constructor(public schema: ZodType<T, ZodTypeDef, any>) {}
 
   parse(data: unknown): T {
     return this.schema.parse(data)
@@ -17,8 +19,8 @@ export class TypeStruct<T> {
     }
   }
 
-  toJSONSchema(): object {
-    // simplistic conversion
-    return (this.schema as any). _def
+  /** JSON Schema (draft 2020-12) of the accepted input */
+  toJSONSchema(opts?: JsonSchemaOptions): JsonSchema {
+    return toJsonSchema(this.schema, opts)
   }
 }
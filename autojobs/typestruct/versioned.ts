@@ -0,0 +1,145 @@
+import { ZodType, ZodTypeDef } from "zod"
+import { TypeStruct } from "./typestruct"
+
+export interface VersionedOptions {
+  /** Field holding the schema version in persisted data (default: "version") */
+  versionKey?: string
+  /** Version assumed for data without a version field (default: the first version) */
+  unversioned?: number
+}
+
+/** Upgrade data of the previous version to the next one */
+export type Migration<From, To> = (previous: From) => To
+
+interface VersionStep {
+  version: number
+  schema: ZodType<any, ZodTypeDef, any>
+  /** From the previous version to this one; absent on the first version */
+  migrate?: Migration<any, any>
+}
+
+export interface MigrationFailure {
+  from: number
+  to: number
+}
+
+export type VersionedParseResult<T> =
+  | { success: true; data: T; version: number; migrated: boolean }
+  | { success: false; errors: any[]; version?: number; migration?: MigrationFailure }
+
+export class VersionedParseError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: any[],
+    public readonly version?: number,
+    public readonly migration?: MigrationFailure
+  ) {
+    super(message)
+    this.name = "VersionedParseError"
+  }
+}
+
+const describe = (issues: any[]) =>
+  issues.map((i: any) => `${i.path?.join(".") || "(root)"}: ${i.message}`).join("; ")
+
+/**
+ * A TypeStruct with a version history: data is validated against the schema of
+ * the version it was written with, then migrated step by step (v1 -> v2 -> ...)
+ * to the latest one. Each step's output is validated against that step's schema.
+ *
+ *   const report = new VersionedTypeStruct(1, reportV1)
+ *     .version(2, reportV2, v1 => ({ ...v1, tags: [] }))
+ *     .version(3, reportV3, v2 => ({ ...v2, score: v2.score / 100 }))
+ */
+export class VersionedTypeStruct<T> extends TypeStruct<T> {
+  private steps: VersionStep[]
+  private readonly versionKey: string
+
+  constructor(version: number, schema: ZodType<T, ZodTypeDef, any>, private readonly options: VersionedOptions = {}) {
+    super(schema)
+    if (!Number.isInteger(version)) throw new Error(`Schema version must be an integer, got ${version}`)
+    this.steps = [{ version, schema }]
+    this.versionKey = options.versionKey ?? "version"
+  }
+
+  /** Latest schema version */
+  get latest(): number {
+    return this.steps[this.steps.length - 1].version
+  }
+
+  get versions(): number[] {
+    return this.steps.map(s => s.version)
+  }
+
+  /**
+   * Add the next version with its upgrade from the current latest one.
+   * Returns a new struct; this one is left unchanged.
+   */
+  version<N>(version: number, schema: ZodType<N, ZodTypeDef, any>, migrate: Migration<T, N>): VersionedTypeStruct<N> {
+    if (!Number.isInteger(version) || version <= this.latest) {
+      throw new Error(`Schema version ${version} must be an integer greater than ${this.latest}`)
+    }
+    const first = this.steps[0]
+    const next = new VersionedTypeStruct<N>(first.version, first.schema, this.options)
+    next.steps = [...this.steps, { version, schema, migrate }]
+    next.schema = schema
+    return next
+  }
+
+  /** Copy of a latest-version value with the version field set, ready to persist */
+  stamp(value: T): Record<string, unknown> {
+    return { ...(value as any), [this.versionKey]: this.latest }
+  }
+
+  /** Validate and migrate to the latest version; throws VersionedParseError */
+  override parse(data: unknown): T {
+    const result = this.safeParse(data)
+    if (result.success) return result.data
+    const where = result.migration
+      ? `migration v${result.migration.from} -> v${result.migration.to} failed`
+      : result.version !== undefined
+        ? `invalid v${result.version} data`
+        : "unknown schema version"
+    throw new VersionedParseError(`${where}: ${describe(result.errors)}`, result.errors, result.version, result.migration)
+  }
+
+  override safeParse(data: unknown): VersionedParseResult<T> {
+    const detected = this.detectVersion(data)
+    const start = this.steps.findIndex(s => s.version === detected)
+    if (start < 0) {
+      return {
+        success: false,
+        errors: [{ code: "unknown_version", path: [this.versionKey], message: `Unknown schema version: ${String(detected)}` }],
+      }
+    }
+    const version = this.steps[start].version
+
+    const initial = this.steps[start].schema.safeParse(data)
+    if (!initial.success) return { success: false, errors: initial.error.issues, version }
+
+    let value: unknown = initial.data
+    for (let i = start + 1; i < this.steps.length; i++) {
+      const from = this.steps[i - 1].version
+      const step = this.steps[i]
+      const migration = { from, to: step.version }
+      try {
+        value = step.migrate!(value)
+      } catch (err: any) {
+        const message = err?.message ?? String(err)
+        return { success: false, errors: [{ code: "migration_failed", path: [], message }], version, migration }
+      }
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        value = { ...value, [this.versionKey]: step.version }
+      }
+      const checked = step.schema.safeParse(value)
+      if (!checked.success) return { success: false, errors: checked.error.issues, version, migration }
+      value = checked.data
+    }
+    return { success: true, data: value as T, version, migrated: start < this.steps.length - 1 }
+  }
+
+  private detectVersion(data: unknown): unknown {
+    const raw = data && typeof data === "object" ? (data as Record<string, unknown>)[this.versionKey] : undefined
+    return raw === undefined ? (this.options.unversioned ?? this.steps[0].version) : raw
+  }
+}
@@ -0,0 +1,406 @@
+import { EventEmitter } from "events"
+import { promises as fs } from "fs"
+import WebSocket from "ws"
+import { BookMetricsOptions, bookMetrics, ConsolidatedBook, MarketTick, NodexMetrics, SourcedTick } from "./nodexEngine"
+
+/** Full book for a symbol; replaces whatever was held locally */
+export interface BookSnapshot {
+  type: "snapshot"
+  symbol: string
+  seq: number
+  bids: MarketTick[]
+  asks: MarketTick[]
+}
+
+/** Changed levels; `size` is the new absolute size, 0 removes the level */
+export interface BookDelta {
+  type: "delta"
+  symbol: string
+  seq: number
+  bids: MarketTick[]
+  asks: MarketTick[]
+}
+
+export type BookMessage = BookSnapshot | BookDelta
+
+/**
+ * A venue's stream of snapshots and deltas. After `subscribe`, a feed must
+ * send a snapshot before deltas for that symbol. A feed that loses its
+ * connection calls `onDisconnect`, and must send snapshots again once it is back.
+ */
+export interface BookFeed {
+  readonly name: string
+  start(onMessage: (msg: BookMessage) => void, onError: (err: Error) => void, onDisconnect?: () => void): void
+  subscribe(symbol: string): void
+  /** Ask for a fresh snapshot after a sequence gap; feeds that cannot wait for the next one */
+  requestSnapshot?(symbol: string): void
+  stop(): void
+}
+
+export interface WebSocketFeedOptions {
+  /** Message sent to subscribe (and to request a snapshot); default `{ op: "subscribe", symbol }` */
+  subscribeMessage?: (symbol: string) => unknown
+  /** Map a raw frame to book messages; default parses JSON BookMessage(s) */
+  parse?: (data: string) => BookMessage | BookMessage[] | undefined
+  /** Delay before reconnecting, doubled up to 30s (default: 1000) */
+  reconnectMs?: number
+}
+
+/**
+ * WebSocket venue feed. Reports every dropped connection, then reconnects
+ * with backoff and resubscribes every symbol, which yields fresh snapshots.
+ */
+export class WebSocketBookFeed implements BookFeed {
+  private ws?: WebSocket
+  private readonly symbols = new Set<string>()
+  private stopped = false
+  private retryMs: number
+  private timer?: NodeJS.Timeout
+
+  constructor(public readonly name: string, private readonly url: string, private readonly opts: WebSocketFeedOptions = {}) {
+    this.retryMs = opts.reconnectMs ?? 1000
+  }
+
+  start(onMessage: (msg: BookMessage) => void, onError: (err: Error) => void, onDisconnect?: () => void): void {
+    this.stopped = false
+    const ws = new WebSocket(this.url)
+    this.ws = ws
+    ws.on("open", () => {
+      this.retryMs = this.opts.reconnectMs ?? 1000
+      this.symbols.forEach(symbol => this.send(symbol))
+    })
+    ws.on("message", data => {
+      try {
+        const parsed = this.opts.parse ? this.opts.parse(data.toString()) : JSON.parse(data.toString())
+        for (const msg of [parsed ?? []].flat()) onMessage(msg)
+      } catch (err: any) {
+        onError(new Error(`[${this.name}] Unparseable frame: ${err?.message ?? err}`))
+      }
+    })
+    ws.on("error", err => onError(err))
+    ws.on("close", () => {
+      if (this.stopped) return
+      // Deltas sent while we are away are lost, so the venue's books are stale from here on
+      onDisconnect?.()
+      this.timer = setTimeout(() => this.start(onMessage, onError, onDisconnect), this.retryMs)
+      this.retryMs = Math.min(this.retryMs * 2, 30_000)
+    })
+  }
+
+  subscribe(symbol: string): void {
+    if (this.symbols.has(symbol)) return
+    this.symbols.add(symbol)
+    this.send(symbol)
+  }
+
+  requestSnapshot(symbol: string): void {
+    this.send(symbol)
+  }
+
+  stop(): void {
+    this.stopped = true
+    if (this.timer) clearTimeout(this.timer)
+    this.ws?.close()
+  }
+
+  private send(symbol: string): void {
+    if (this.ws?.readyState !== WebSocket.OPEN) return
+    const msg = this.opts.subscribeMessage ? this.opts.subscribeMessage(symbol) : { op: "subscribe", symbol }
+    this.ws.send(typeof msg === "string" ? msg : JSON.stringify(msg))
+  }
+}
+
+export interface ReplayFeedOptions {
+  /** Playback speed for messages with a `ts` field; 0 replays without delays (default: 0) */
+  speed?: number
+}
+
+/**
+ * Replays recorded book messages (an array, or an NDJSON file path) for
+ * backtests and local runs. Messages for unsubscribed symbols are skipped.
+ */
+export class ReplayBookFeed implements BookFeed {
+  private readonly symbols = new Set<string>()
+  private stopped = false
+  private done?: Promise<void>
+
+  constructor(
+    public readonly name: string,
+    private readonly source: string | Array<BookMessage & { ts?: number }>,
+    private readonly opts: ReplayFeedOptions = {}
+  ) {}
+
+  start(onMessage: (msg: BookMessage) => void, onError: (err: Error) => void): void {
+    this.stopped = false
+    this.done = this.play(onMessage).catch(onError)
+  }
+
+  /** Resolves once every message has been replayed (or the feed was stopped) */
+  finished(): Promise<void> {
+    return this.done ?? Promise.resolve()
+  }
+
+  subscribe(symbol: string): void {
+    this.symbols.add(symbol)
+  }
+
+  stop(): void {
+    this.stopped = true
+  }
+
+  private async play(onMessage: (msg: BookMessage) => void): Promise<void> {
+    const messages = typeof this.source === "string"
+      ? (await fs.readFile(this.source, "utf8")).split("\n").filter(line => line.trim()).map(line => JSON.parse(line))
+      : this.source
+    const speed = this.opts.speed ?? 0
+    let lastTs: number | undefined
+    for (const msg of messages) {
+      if (this.stopped) return
+      if (speed > 0 && msg.ts !== undefined) {
+        if (lastTs !== undefined && msg.ts > lastTs) await new Promise(r => setTimeout(r, (msg.ts - lastTs!) / speed))
+        lastTs = msg.ts
+      } else {
+        // Yield so subscribers and listeners attached after start() see every message
+        await new Promise(r => setImmediate(r))
+      }
+      if (!this.symbols.size || this.symbols.has(msg.symbol)) onMessage(msg)
+    }
+  }
+}
+
+export interface NodexStreamOptions extends BookMetricsOptions {
+  /** Levels per side per venue used for metrics (default: 20) */
+  depth?: number
+  /** Relative bid or ask VWAP move, in bps of the last emitted one, that triggers an update (default: 10) */
+  vwapThresholdBps?: number
+  /** Relative microprice move, in bps, that triggers an update (default: vwapThresholdBps) */
+  micropriceThresholdBps?: number
+  /** Absolute spread move, in bps, that triggers an update (default: 5) */
+  spreadThresholdBps?: number
+}
+
+export interface NodexMetricsUpdate {
+  metrics: NodexMetrics
+  /**
+   * What crossed its threshold; "initial" for the first metrics of a symbol,
+   * "wall" whenever `metrics.pulledWalls` is non-empty, since that signal only
+   * lasts until the next book change
+   */
+  trigger: "initial" | "wall" | "vwap" | "microprice" | "spread"
+  at: number
+}
+
+export interface BookGap {
+  venue: string
+  symbol: string
+  expected: number
+  received: number
+}
+
+export interface LiveMetrics {
+  metrics: NodexMetrics
+  updatedAt: number
+  /** Venues whose local book is currently usable */
+  synced: string[]
+}
+
+export interface NodexStreamEvents {
+  metrics: (update: NodexMetricsUpdate) => void
+  gap: (gap: BookGap) => void
+  resync: (info: { venue: string; symbol: string; seq: number }) => void
+  feedError: (info: { venue: string; error: Error }) => void
+  /** A feed lost its connection; its books are out of sync until fresh snapshots arrive */
+  disconnect: (info: { venue: string; symbols: string[] }) => void
+}
+
+interface LocalBook {
+  bids: Map<number, number>
+  asks: Map<number, number>
+  seq: number
+  synced: boolean
+  /** A gap was seen; the next snapshot completes a resync */
+  resyncing: boolean
+}
+
+/**
+ * Keeps a local book per venue and symbol from streaming feeds, consolidates
+ * them like NodexEngine.fetchBook, and emits metrics when a wall is pulled or
+ * a side VWAP, the microprice or the spread moves past its threshold. Deltas are only applied
+ * in strict sequence; a gap or a dropped feed connection marks that venue's
+ * books out of sync until a new snapshot arrives.
+ */
+export class NodexStream extends EventEmitter {
+  private readonly books = new Map<string, LocalBook>()
+  private readonly latestBySymbol = new Map<string, LiveMetrics>()
+  private readonly emitted = new Map<string, NodexMetrics>()
+  private readonly symbols = new Set<string>()
+  private readonly depth: number
+  private readonly vwapThresholdBps: number
+  private readonly micropriceThresholdBps: number
+  private readonly spreadThresholdBps: number
+  private started = false
+
+  constructor(private readonly feeds: BookFeed[], private readonly opts: NodexStreamOptions = {}) {
+    super()
+    if (!feeds.length) throw new Error("NodexStream needs at least one feed")
+    if (new Set(feeds.map(f => f.name)).size !== feeds.length) throw new Error("Feed names must be unique")
+    this.depth = opts.depth ?? 20
+    this.vwapThresholdBps = opts.vwapThresholdBps ?? 10
+    this.micropriceThresholdBps = opts.micropriceThresholdBps ?? this.vwapThresholdBps
+    this.spreadThresholdBps = opts.spreadThresholdBps ?? 5
+  }
+
+  public override on<K extends keyof NodexStreamEvents>(event: K, listener: NodexStreamEvents[K]): this {
+    return super.on(event, listener as any)
+  }
+
+  start(): void {
+    if (this.started) return
+    this.started = true
+    for (const feed of this.feeds) {
+      feed.start(
+        msg => this.handle(feed, msg),
+        error => this.emit("feedError", { venue: feed.name, error }),
+        () => this.disconnected(feed)
+      )
+    }
+  }
+
+  stop(): void {
+    this.started = false
+    this.feeds.forEach(feed => feed.stop())
+  }
+
+  /** Start tracking a symbol on every feed */
+  watch(symbol: string): void {
+    if (this.symbols.has(symbol)) return
+    this.symbols.add(symbol)
+    this.feeds.forEach(feed => feed.subscribe(symbol))
+  }
+
+  watching(symbol: string): boolean {
+    return this.symbols.has(symbol)
+  }
+
+  /** Current metrics for a symbol, if any venue has a synced book */
+  latest(symbol: string): LiveMetrics | undefined {
+    return this.latestBySymbol.get(symbol)
+  }
+
+  all(): LiveMetrics[] {
+    return Array.from(this.latestBySymbol.values())
+  }
+
+  /** Mark every book of the feed out of sync and drop it from the consolidated metrics */
+  private disconnected(feed: BookFeed): void {
+    const symbols: string[] = []
+    for (const [key, book] of this.books) {
+      const [venue, symbol] = key.split("|", 2)
+      if (venue !== feed.name || !book.synced) continue
+      book.synced = false
+      book.resyncing = true
+      symbols.push(symbol)
+    }
+    symbols.forEach(symbol => this.evaluate(symbol))
+    this.emit("disconnect", { venue: feed.name, symbols })
+  }
+
+  private handle(feed: BookFeed, msg: BookMessage): void {
+    if (!msg || !this.symbols.has(msg.symbol) || !Number.isFinite(msg.seq)) return
+    const key = `${feed.name}|${msg.symbol}`
+    let book = this.books.get(key)
+
+    if (msg.type === "snapshot") {
+      const wasResyncing = book?.resyncing ?? false
+      book = { bids: new Map(), asks: new Map(), seq: msg.seq, synced: true, resyncing: false }
+      applyLevels(book.bids, msg.bids)
+      applyLevels(book.asks, msg.asks)
+      this.books.set(key, book)
+      if (wasResyncing) this.emit("resync", { venue: feed.name, symbol: msg.symbol, seq: msg.seq })
+    } else if (msg.type === "delta") {
+      if (!book?.synced || msg.seq <= book.seq) return
+      if (msg.seq !== book.seq + 1) {
+        book.synced = false
+        book.resyncing = true
+        this.emit("gap", { venue: feed.name, symbol: msg.symbol, expected: book.seq + 1, received: msg.seq })
+        feed.requestSnapshot?.(msg.symbol)
+      } else {
+        applyLevels(book.bids, msg.bids)
+        applyLevels(book.asks, msg.asks)
+        book.seq = msg.seq
+      }
+    } else {
+      return
+    }
+    this.evaluate(msg.symbol)
+  }
+
+  private evaluate(symbol: string): void {
+    const bids: SourcedTick[] = []
+    const asks: SourcedTick[] = []
+    const failures: ConsolidatedBook["failures"] = []
+    const synced: string[] = []
+    for (const { name } of this.feeds) {
+      const book = this.books.get(`${name}|${symbol}`)
+      if (!book?.synced) {
+        failures.push({ venue: name, error: book ? "out of sync" : "no snapshot yet" })
+        continue
+      }
+      synced.push(name)
+      bids.push(...topLevels(book.bids, "desc", this.depth).map(t => ({ ...t, venue: name })))
+      asks.push(...topLevels(book.asks, "asc", this.depth).map(t => ({ ...t, venue: name })))
+    }
+    if (!synced.length) {
+      this.latestBySymbol.delete(symbol)
+      return
+    }
+    bids.sort((a, b) => b.price - a.price)
+    asks.sort((a, b) => a.price - b.price)
+
+    const previous = this.latestBySymbol.get(symbol)?.metrics.walls
+    const metrics = bookMetrics({ symbol, bids, asks, failures }, this.feeds.map(f => f.name), this.opts, previous)
+    const at = Date.now()
+    this.latestBySymbol.set(symbol, { metrics, updatedAt: at, synced })
+
+    const trigger = this.triggerOf(this.emitted.get(symbol), metrics)
+    if (!trigger) return
+    this.emitted.set(symbol, metrics)
+    this.emit("metrics", { metrics, trigger, at })
+  }
+
+  /** Why new metrics are worth emitting compared to the last emitted ones, if they are */
+  private triggerOf(last: NodexMetrics | undefined, metrics: NodexMetrics): NodexMetricsUpdate["trigger"] | undefined {
+    if (!last) return "initial"
+    if (metrics.pulledWalls.length) return "wall"
+    // The combined VWAP mixes both sides and barely moves when the book shifts, so watch each side
+    if (
+      movedBps(last.bidVwap, metrics.bidVwap) >= this.vwapThresholdBps ||
+      movedBps(last.askVwap, metrics.askVwap) >= this.vwapThresholdBps
+    ) {
+      return "vwap"
+    }
+    if (movedBps(last.microprice, metrics.microprice) >= this.micropriceThresholdBps) return "microprice"
+    if (Math.abs(metrics.spread - last.spread) * 10_000 >= this.spreadThresholdBps) return "spread"
+  }
+}
+
+/** Relative move in bps; a side appearing or emptying (0 on one end) always counts */
+function movedBps(previous: number, current: number): number {
+  if (previous === current) return 0
+  if (previous <= 0 || current <= 0) return Infinity
+  return (Math.abs(current - previous) / previous) * 10_000
+}
+
+function applyLevels(side: Map<number, number>, levels: MarketTick[] = []): void {
+  for (const { price, size } of levels) {
+    if (!Number.isFinite(price) || price <= 0) continue
+    if (!Number.isFinite(size) || size <= 0) side.delete(price)
+    else side.set(price, size)
+  }
+}
+
+function topLevels(side: Map<number, number>, order: "asc" | "desc", depth: number): MarketTick[] {
+  return Array.from(side, ([price, size]) => ({ price, size }))
+    .sort((a, b) => (order === "asc" ? a.price - b.price : b.price - a.price))
+    .slice(0, depth)
+}
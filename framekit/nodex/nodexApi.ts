@@ -1,19 +1,238 @@
 
-import express from "express"
-import { NodexEngine } from "./nodexEngine"
+import express, { Request, Response, NextFunction } from "express"
+import { z } from "zod"
+import { NodexEngine, NodexMetrics, SymbolResult } from "./nodexEngine"
+import { parseNamedUrls, parseVenues } from "./venues"
+import { BookFeed, NodexStream, ReplayBookFeed, WebSocketBookFeed } from "./bookStream"
 
 const app = express()
 app.use(express.json())
 
-const engine = new NodexEngine(process.env.NODEX_API_URL!)
+// NODEX_VENUES ("name=url,name=url") consolidates several venues; NODEX_API_URL is a single one.
+// Without either, only streamed symbols are served.
+const venueSource = process.env.NODEX_VENUES ? parseVenues(process.env.NODEX_VENUES) : process.env.NODEX_API_URL
+const engine = venueSource ? new NodexEngine(venueSource) : undefined
 
-app.get("/nodex/analyze/:symbol", async (req, res) => {
-  try {
-    const metrics = await engine.analyze(req.params.symbol)
-    res.json({ success: true, metrics })
-  } catch (err: any) {
-    res.status(500).json({ success: false, error: err.message })
+// Streaming mode: NODEX_STREAM_FEEDS ("name=wss://...,...") or NODEX_REPLAY_FILE (NDJSON of book messages)
+const feeds: BookFeed[] = process.env.NODEX_STREAM_FEEDS
+  ? parseNamedUrls(process.env.NODEX_STREAM_FEEDS).map(({ name, url }) => new WebSocketBookFeed(name, url))
+  : process.env.NODEX_REPLAY_FILE
+    ? [new ReplayBookFeed("replay", process.env.NODEX_REPLAY_FILE, { speed: Number(process.env.NODEX_REPLAY_SPEED || 1) })]
+    : []
+const stream = feeds.length
+  ? new NodexStream(feeds, {
+      vwapThresholdBps: process.env.NODEX_VWAP_THRESHOLD_BPS ? Number(process.env.NODEX_VWAP_THRESHOLD_BPS) : undefined,
+      micropriceThresholdBps: process.env.NODEX_MICROPRICE_THRESHOLD_BPS
+        ? Number(process.env.NODEX_MICROPRICE_THRESHOLD_BPS)
+        : undefined,
+      spreadThresholdBps: process.env.NODEX_SPREAD_THRESHOLD_BPS ? Number(process.env.NODEX_SPREAD_THRESHOLD_BPS) : undefined,
+    })
+  : undefined
+
+if (!engine && !stream) {
+  console.error("[nodex] Set NODEX_VENUES or NODEX_API_URL, or stream with NODEX_STREAM_FEEDS or NODEX_REPLAY_FILE")
+  process.exit(1)
+}
+
+/** Error for a symbol with no live book when there is no HTTP venue to fetch it from */
+const notStreamed = (symbol: string) => `${symbol} has no live streamed book and no HTTP venue is configured`
+
+if (stream) {
+  for (const symbol of (process.env.NODEX_STREAM_SYMBOLS || "").split(",").map(s => s.trim()).filter(Boolean)) {
+    stream.watch(symbol)
+  }
+  stream.on("gap", g => console.warn(`[nodex] ${g.venue}/${g.symbol} gap: expected ${g.expected}, got ${g.received}`))
+  stream.on("feedError", ({ venue, error }) => console.warn(`[nodex] ${venue} feed error: ${error.message}`))
+  stream.on("disconnect", ({ venue, symbols }) => console.warn(`[nodex] ${venue} disconnected; ${symbols.length} book(s) awaiting resync`))
+  stream.start()
+}
+
+// ---------- Cache & rate limit ----------
+
+const CACHE_TTL_MS = Number(process.env.NODEX_CACHE_TTL_MS || 2000)
+const RATE_LIMIT_PER_MIN = Number(process.env.NODEX_RATE_LIMIT_PER_MIN || 120)
+const MAX_BATCH = 50
+
+const cache = new Map<string, { metrics: NodexMetrics; expiresAt: number }>()
+
+/**
+ * Results in input order: live streamed metrics first, then cached ones, and
+ * a single engine batch for whatever is left. Only NODEX_STREAM_SYMBOLS are
+ * streamed; other symbols are fetched, so arbitrary input cannot grow the stream.
+ */
+async function analyzeSymbols(symbols: string[]): Promise<SymbolResult[]> {
+  const now = Date.now()
+  const results = new Map<string, SymbolResult>()
+  const misses: string[] = []
+  for (const symbol of new Set(symbols)) {
+    const live = stream?.latest(symbol)
+    const cached = cache.get(symbol)
+    if (live) results.set(symbol, { symbol, ok: true, metrics: live.metrics })
+    else if (cached && cached.expiresAt > now) results.set(symbol, { symbol, ok: true, metrics: cached.metrics })
+    else misses.push(symbol)
+  }
+  const fetched = engine
+    ? await engine.analyzeEach(misses)
+    : misses.map((symbol): SymbolResult => ({ symbol, ok: false, error: notStreamed(symbol) }))
+  for (const result of fetched) {
+    if (result.ok) cache.set(result.symbol, { metrics: result.metrics, expiresAt: Date.now() + CACHE_TTL_MS })
+    results.set(result.symbol, result)
+  }
+  // Drop expired entries so symbols nobody asks for again do not pile up
+  if (cache.size > 1000) for (const [symbol, entry] of cache) if (entry.expiresAt <= now) cache.delete(symbol)
+  return symbols.map(symbol => results.get(symbol)!)
+}
+
+const buckets = new Map<string, { tokens: number; updatedAt: number }>()
+
+// A bucket idle for a minute is full again, the same as having none
+setInterval(() => {
+  const now = Date.now()
+  for (const [key, bucket] of buckets) if (now - bucket.updatedAt >= 60_000) buckets.delete(key)
+}, 60_000).unref()
+
+/**
+ * Per-client token bucket refilled at NODEX_RATE_LIMIT_PER_MIN; a request
+ * costs one token per symbol. Over the limit answers 429 with Retry-After.
+ */
+const rateLimit = (cost: (req: Request) => number) => (req: Request, res: Response, next: NextFunction) => {
+  const now = Date.now()
+  const key = req.ip || "unknown"
+  const bucket = buckets.get(key) ?? { tokens: RATE_LIMIT_PER_MIN, updatedAt: now }
+  bucket.tokens = Math.min(RATE_LIMIT_PER_MIN, bucket.tokens + ((now - bucket.updatedAt) / 60_000) * RATE_LIMIT_PER_MIN)
+  bucket.updatedAt = now
+  buckets.set(key, bucket)
+
+  const needed = Math.min(cost(req), RATE_LIMIT_PER_MIN)
+  res.setHeader("RateLimit-Limit", String(RATE_LIMIT_PER_MIN))
+  if (bucket.tokens < needed) {
+    const retryAfter = Math.ceil(((needed - bucket.tokens) / RATE_LIMIT_PER_MIN) * 60)
+    res.setHeader("Retry-After", String(retryAfter))
+    return res.status(429).json({ success: false, error: "Rate limit exceeded", retryAfterSec: retryAfter })
+  }
+  bucket.tokens -= needed
+  res.setHeader("RateLimit-Remaining", String(Math.floor(bucket.tokens)))
+  next()
+}
+
+/** Upstream venues rate limited every symbol: pass the 429 on */
+function sendUpstreamLimited(res: Response, results: SymbolResult[]): boolean {
+  const failed = results.filter((r): r is Extract<SymbolResult, { ok: false }> => !r.ok)
+  if (!results.length || failed.length !== results.length || !failed.every(r => r.rateLimited)) return false
+  const waits = failed.map(r => r.retryAfterMs).filter((ms): ms is number => ms !== undefined)
+  if (waits.length) res.setHeader("Retry-After", String(Math.ceil(Math.min(...waits) / 1000)))
+  res.status(429).json({ success: false, error: "Upstream venues are rate limiting", results })
+  return true
+}
+
+// ---------- Schemas ----------
+
+const symbolSchema = z.string().trim().min(1).max(64)
+
+const batchBodySchema = z.object({
+  symbols: z.array(symbolSchema).min(1).max(MAX_BATCH),
+})
+
+const rankBodySchema = z.object({
+  symbols: z.array(symbolSchema).min(1).max(MAX_BATCH),
+  by: z.enum(["spread", "depth", "imbalance"]),
+  /** Default: tightest spread, deepest book, most bid-heavy first */
+  order: z.enum(["asc", "desc"]).optional(),
+  /** Price levels for imbalance; must be one the engine computes (default: 5) */
+  levels: z.number().int().positive().default(5),
+})
+
+type RankBy = z.infer<typeof rankBodySchema>["by"]
+
+const invalid = (res: Response, error: z.ZodError) =>
+  res.status(400).json({
+    success: false,
+    error: `Invalid body: ${error.issues.map(i => `${i.path.join(".")}: ${i.message}`).join("; ")}`,
+  })
+
+/**
+ * Ranking value of a symbol, or why it cannot be ranked. Depth is quote notional,
+ * so symbols trading at different prices compare fairly.
+ */
+function rankValue(metrics: NodexMetrics, by: RankBy, levels: number): { value: number } | { error: string } {
+  if (by === "spread") {
+    // calculateSpread reports 0 for a one-sided book, which would otherwise rank as the tightest
+    if (!metrics.bestBidVenue || !metrics.bestAskVenue) return { error: "One-sided book, no spread" }
+    return { value: metrics.spread }
   }
+  if (by === "depth") return { value: metrics.venues.reduce((sum, v) => sum + v.bidNotional + v.askNotional, 0) }
+  const ratio = metrics.imbalance.find(i => i.levels === levels)?.ratio
+  return ratio === undefined ? { error: `No imbalance computed for ${levels} levels` } : { value: ratio }
+}
+
+// ---------- Routes ----------
+
+app.get("/nodex/analyze/:symbol", rateLimit(() => 1), async (req, res) => {
+  const symbol = req.params.symbol
+  // Serve the streamed book when it is live; otherwise fall back to a fetch
+  const live = stream?.latest(symbol)
+  if (live) {
+    return res.json({ success: true, metrics: live.metrics, live: true, updatedAt: live.updatedAt, synced: live.synced })
+  }
+  if (!engine) return res.status(404).json({ success: false, error: notStreamed(symbol) })
+  const [result] = await analyzeSymbols([symbol])
+  if (result.ok) return res.json({ success: true, metrics: result.metrics, live: false })
+  if (sendUpstreamLimited(res, [result])) return
+  res.status(500).json({ success: false, error: result.error })
+})
+
+/** Analyze a list of symbols; results follow input order, failures are reported per symbol */
+app.post(
+  "/nodex/analyze",
+  rateLimit(req => (Array.isArray(req.body?.symbols) ? req.body.symbols.length : 1)),
+  async (req, res) => {
+    const parsed = batchBodySchema.safeParse(req.body)
+    if (!parsed.success) return invalid(res, parsed.error)
+    const results = await analyzeSymbols(parsed.data.symbols)
+    if (sendUpstreamLimited(res, results)) return
+    res.json({ success: true, results })
+  }
+)
+
+/** Rank symbols by spread, depth or imbalance; symbols that failed are listed under `errors` */
+app.post(
+  "/nodex/rank",
+  rateLimit(req => (Array.isArray(req.body?.symbols) ? req.body.symbols.length : 1)),
+  async (req, res) => {
+    const parsed = rankBodySchema.safeParse(req.body)
+    if (!parsed.success) return invalid(res, parsed.error)
+    const { symbols, by, levels } = parsed.data
+    const order = parsed.data.order ?? (by === "spread" ? "asc" : "desc")
+
+    const results = await analyzeSymbols(symbols)
+    if (sendUpstreamLimited(res, results)) return
+    const ranked: Array<{ symbol: string; value: number; metrics: NodexMetrics }> = []
+    const errors: Array<{ symbol: string; error: string }> = []
+    for (const result of results) {
+      if (!result.ok) {
+        errors.push({ symbol: result.symbol, error: result.error })
+        continue
+      }
+      const ranking = rankValue(result.metrics, by, levels)
+      if ("error" in ranking) errors.push({ symbol: result.symbol, error: ranking.error })
+      else ranked.push({ symbol: result.symbol, value: ranking.value, metrics: result.metrics })
+    }
+    ranked.sort((a, b) => (order === "asc" ? a.value - b.value : b.value - a.value))
+
+    res.json({
+      success: true,
+      by,
+      order,
+      ranking: ranked.map((r, i) => ({ rank: i + 1, ...r })),
+      errors,
+    })
+  }
+)
+
+/** Every symbol with a live streamed book */
+app.get("/nodex/live", (_req, res) => {
+  if (!stream) return res.status(404).json({ success: false, error: "Streaming is not configured" })
+  res.json({ success: true, symbols: stream.all() })
 })
 
 app.listen(process.env.PORT || 3000, () =>
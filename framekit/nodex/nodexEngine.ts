@@ -1,129 +1,354 @@
-import fetch, { RequestInit } from "node-fetch"
+import pLimit from "p-limit"
+import { HttpVenueAdapter, VenueAdapter, VenueRateLimitError } from "./venues"
 
 export interface MarketTick {
   price: number
   size: number
 }
 
+/** A level of the consolidated book, tagged with the venue it rests on */
+export interface SourcedTick extends MarketTick {
+  venue: string
+}
+
+export interface ConsolidatedBook {
+  symbol: string
+  /** Best (highest) first across all venues */
+  bids: SourcedTick[]
+  /** Best (lowest) first across all venues */
+  asks: SourcedTick[]
+  /** Venues that failed to return a book, with the reason */
+  failures: Array<{ venue: string; error: string }>
+}
+
+/** How much of the consolidated book one venue supplies */
+export interface VenueContribution {
+  venue: string
+  ok: boolean
+  error?: string
+  bestBid: number
+  bestAsk: number
+  bidSize: number
+  askSize: number
+  /** Quote value (price × size) resting on each side */
+  bidNotional: number
+  askNotional: number
+  /** Share of consolidated bid/ask size, 0–1 */
+  bidShare: number
+  askShare: number
+}
+
+/** Unusually large resting order, relative to the other levels on its side */
+export interface LiquidityWall {
+  side: "bid" | "ask"
+  price: number
+  size: number
+  venue: string
+  /** Size as a multiple of the side's median level size */
+  multiple: number
+}
+
+/** Bid/ask size balance over the best `levels` price levels, -1 (all asks) to 1 (all bids) */
+export interface BookImbalance {
+  levels: number
+  bidSize: number
+  askSize: number
+  ratio: number
+}
+
 export interface NodexMetrics {
   symbol: string
+  /** Both sides combined; kept for compatibility, prefer bidVwap/askVwap */
   vwap: number
+  bidVwap: number
+  askVwap: number
   spread: number
+  /** Top-of-book price weighted toward the thinner side; 0 when a side is empty */
+  microprice: number
+  imbalance: BookImbalance[]
+  walls: LiquidityWall[]
+  /** Walls from the previous analysis of this symbol that vanished without the price reaching them */
+  pulledWalls: LiquidityWall[]
+  /** Venue with the highest bid / lowest ask; null when that side is empty */
+  bestBidVenue: string | null
+  bestAskVenue: string | null
+  venues: VenueContribution[]
+}
+
+/** Outcome for one symbol of a batch; failures carry the error instead of being dropped */
+export type SymbolResult =
+  | { symbol: string; ok: true; metrics: NodexMetrics }
+  | { symbol: string; ok: false; error: string; rateLimited?: boolean; retryAfterMs?: number }
+
+/** Options for the derived book metrics */
+export interface BookMetricsOptions {
+  imbalanceLevels?: number[] // price levels for imbalance ratios (default: [1, 5, 10])
+  wallMultiple?: number      // level size vs. side median that counts as a wall (default: 5)
+  wallMinLevels?: number     // levels a side needs before walls are detected (default: 5)
 }
 
 /**
  * Configuration options for NodexEngine
  */
-export interface NodexEngineOptions {
-  depth?: number       // orderbook depth (default: 20)
+export interface NodexEngineOptions extends BookMetricsOptions {
+  depth?: number       // orderbook depth per venue (default: 20)
   timeoutMs?: number   // per-request timeout (default: 5000)
   retryCount?: number  // number of fetch retries (default: 2)
-  concurrency?: number // parallel symbol analysis (default: 5)
+  concurrency?: number // parallel venue requests across all symbols (default: 5)
+  maxTrackedSymbols?: number // symbols whose walls are remembered for pull detection (default: 1000)
 }
 
 export class NodexEngine {
   private depth: number
-  private timeoutMs: number
-  private retryCount: number
-  private concurrency: number
+  private venues: VenueAdapter[]
+  private limit: ReturnType<typeof pLimit>
+  private metricsOpts: BookMetricsOptions
+  /** Walls seen on the last analysis per symbol, to spot pulled ones */
+  private walls = new Map<string, LiquidityWall[]>()
+  private maxTrackedSymbols: number
 
+  /**
+   * @param source a single order book API URL, or the venue adapters to
+   *               consolidate
+   */
   constructor(
-    private apiUrl: string,
+    source: string | VenueAdapter[],
     opts: NodexEngineOptions = {}
   ) {
     this.depth = opts.depth ?? 20
-    this.timeoutMs = opts.timeoutMs ?? 5000
-    this.retryCount = opts.retryCount ?? 2
-    this.concurrency = opts.concurrency ?? 5
+    this.venues = typeof source === "string"
+      ? [new HttpVenueAdapter("default", source, opts)]
+      : source
+    if (!this.venues.length) throw new Error("NodexEngine needs at least one venue")
+    const names = new Set(this.venues.map(v => v.name))
+    if (names.size !== this.venues.length) throw new Error("Venue names must be unique")
+    // One limiter for every venue request, so batches stay within budget however many venues there are
+    this.limit = pLimit(Math.max(1, opts.concurrency ?? 5))
+    this.metricsOpts = opts
+    this.maxTrackedSymbols = Math.max(1, opts.maxTrackedSymbols ?? 1000)
   }
 
-  /** Utility to perform fetch with timeout and retries */
-  private async fetchWithTimeout<T>(
-    url: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    for (let attempt = 0; attempt <= this.retryCount; attempt++) {
-      const controller = new AbortController()
-      const id = setTimeout(() => controller.abort(), this.timeoutMs)
-      try {
-        const res = await fetch(url, {
-          signal: controller.signal,
-          ...options,
-        })
-        clearTimeout(id)
-        if (!res.ok) {
-          throw new Error(`HTTP ${res.status}: ${res.statusText}`)
-        }
-        return (await res.json()) as T
-      } catch (err) {
-        clearTimeout(id)
-        if (attempt === this.retryCount) {
-          throw err
-        }
-        // small backoff
-        await new Promise((r) => setTimeout(r, 100 * (attempt + 1)))
-      }
-    }
-    // unreachable
-    throw new Error("Failed to fetch after retries")
+  /** Names of the configured venues */
+  public get venueNames(): string[] {
+    return this.venues.map(v => v.name)
   }
 
-  /** Fetch orderbook for a given symbol */
-  private async fetchBook(symbol: string): Promise<{ bids: MarketTick[]; asks: MarketTick[] }> {
-    const url = `${this.apiUrl}/markets/${symbol}/orderbook?depth=${this.depth}`
-    return this.fetchWithTimeout<{ bids: MarketTick[]; asks: MarketTick[] }>(url)
-  }
+  /**
+   * Fetch every venue's book for a symbol and merge the levels; fails only
+   * when no venue answers
+   */
+  public async fetchBook(symbol: string): Promise<ConsolidatedBook> {
+    const results = await Promise.allSettled(
+      this.venues.map(venue => this.limit(() => venue.fetchBook(symbol, this.depth)))
+    )
 
-  /** Compute volume-weighted average price */
-  private calculateVWAP(ticks: MarketTick[]): number {
-    let pv = 0, vol = 0
-    for (const { price, size } of ticks) {
-      pv += price * size
-      vol += size
+    const bids: SourcedTick[] = []
+    const asks: SourcedTick[] = []
+    const failures: ConsolidatedBook["failures"] = []
+    results.forEach((result, i) => {
+      const venue = this.venues[i].name
+      if (result.status === "rejected") {
+        failures.push({ venue, error: result.reason?.message ?? String(result.reason) })
+        return
+      }
+      bids.push(...validTicks(result.value.bids).map(t => ({ ...t, venue })))
+      asks.push(...validTicks(result.value.asks).map(t => ({ ...t, venue })))
+    })
+    if (failures.length === this.venues.length) {
+      const reasons = results.map(r => (r as PromiseRejectedResult).reason)
+      if (reasons.every(r => r instanceof VenueRateLimitError)) {
+        // Retry once the soonest venue allows it
+        const waits = reasons.map(r => r.retryAfterMs).filter((ms): ms is number => ms !== undefined)
+        throw new VenueRateLimitError(this.venueNames.join(","), waits.length ? Math.min(...waits) : undefined)
+      }
+      throw new Error(`All venues failed for ${symbol}: ${failures.map(f => `${f.venue}: ${f.error}`).join("; ")}`)
     }
-    return vol > 0 ? pv / vol : 0
-  }
 
-  /** Compute normalized spread between best bid & ask */
-  private calculateSpread(bids: MarketTick[], asks: MarketTick[]): number {
-    const bestBid = bids[0]?.price ?? 0
-    const bestAsk = asks[0]?.price ?? 0
-    if (bestBid <= 0 || bestAsk <= 0) return 0
-    return (bestAsk - bestBid) / ((bestAsk + bestBid) / 2)
+    // Sort is stable, so equal prices keep venue order
+    bids.sort((a, b) => b.price - a.price)
+    asks.sort((a, b) => a.price - b.price)
+    return { symbol, bids, asks, failures }
   }
 
   /**
-   * Analyze a single symbol: fetch orderbook, compute VWAP & spread
+   * Analyze a single symbol: fetch the consolidated book, compute VWAP,
+   * spread and per-venue contribution
    */
   public async analyze(symbol: string): Promise<NodexMetrics> {
-    const { bids, asks } = await this.fetchBook(symbol)
-    const combined = bids.concat(asks)
-    return {
-      symbol,
-      vwap: this.calculateVWAP(combined),
-      spread: this.calculateSpread(bids, asks),
-    }
+    const metrics = bookMetrics(await this.fetchBook(symbol), this.venueNames, this.metricsOpts, this.walls.get(symbol))
+    // Re-insert so the Map stays in least-recently-analyzed order, then evict the oldest
+    this.walls.delete(symbol)
+    this.walls.set(symbol, metrics.walls)
+    if (this.walls.size > this.maxTrackedSymbols) this.walls.delete(this.walls.keys().next().value!)
+    return metrics
   }
 
   /**
-   * Analyze multiple symbols in parallel with limited concurrency
+   * Analyze multiple symbols, one result per input symbol in input order;
+   * venue requests share the engine's concurrency limit
    */
-  public async analyzeBatch(symbols: string[]): Promise<NodexMetrics[]> {
-    const results: NodexMetrics[] = []
-    const queue = [...symbols]
-    const worker = async () => {
-      while (queue.length) {
-        const sym = queue.shift()!
+  public async analyzeEach(symbols: string[]): Promise<SymbolResult[]> {
+    return Promise.all(
+      symbols.map(async (symbol): Promise<SymbolResult> => {
         try {
-          const metrics = await this.analyze(sym)
-          results.push(metrics)
-        } catch (err) {
-          console.warn(`Failed to analyze ${sym}:`, err)
+          return { symbol, ok: true, metrics: await this.analyze(symbol) }
+        } catch (err: any) {
+          if (err instanceof VenueRateLimitError) {
+            return { symbol, ok: false, error: err.message, rateLimited: true, retryAfterMs: err.retryAfterMs }
+          }
+          return { symbol, ok: false, error: err?.message ?? String(err) }
         }
-      }
+      })
+    )
+  }
+
+  /**
+   * Analyze multiple symbols; failed symbols are logged and left out, order
+   * follows the input. Use analyzeEach to get the errors back.
+   */
+  public async analyzeBatch(symbols: string[]): Promise<NodexMetrics[]> {
+    const results = await this.analyzeEach(symbols)
+    return results.flatMap(r => {
+      if (r.ok) return [r.metrics]
+      console.warn(`Failed to analyze ${r.symbol}: ${r.error}`)
+      return []
+    })
+  }
+}
+
+function validTicks(ticks: MarketTick[]): MarketTick[] {
+  return (ticks ?? []).filter(t => Number.isFinite(t.price) && t.price > 0 && Number.isFinite(t.size) && t.size > 0)
+}
+
+/** Compute volume-weighted average price */
+function calculateVWAP(ticks: MarketTick[]): number {
+  let pv = 0, vol = 0
+  for (const { price, size } of ticks) {
+    pv += price * size
+    vol += size
+  }
+  return vol > 0 ? pv / vol : 0
+}
+
+/** Compute normalized spread between best bid & ask */
+function calculateSpread(bids: MarketTick[], asks: MarketTick[]): number {
+  const bestBid = bids[0]?.price ?? 0
+  const bestAsk = asks[0]?.price ?? 0
+  if (bestBid <= 0 || bestAsk <= 0) return 0
+  return (bestAsk - bestBid) / ((bestAsk + bestBid) / 2)
+}
+
+/** Per-venue best prices and share of consolidated size */
+function contributions(book: ConsolidatedBook, venues: string[]): VenueContribution[] {
+  const totalBid = book.bids.reduce((sum, t) => sum + t.size, 0)
+  const totalAsk = book.asks.reduce((sum, t) => sum + t.size, 0)
+  return venues.map(name => {
+    const failure = book.failures.find(f => f.venue === name)
+    const bids = book.bids.filter(t => t.venue === name)
+    const asks = book.asks.filter(t => t.venue === name)
+    const bidSize = bids.reduce((sum, t) => sum + t.size, 0)
+    const askSize = asks.reduce((sum, t) => sum + t.size, 0)
+    return {
+      venue: name,
+      ok: !failure,
+      ...(failure ? { error: failure.error } : {}),
+      bestBid: bids[0]?.price ?? 0,
+      bestAsk: asks[0]?.price ?? 0,
+      bidSize,
+      askSize,
+      bidNotional: bids.reduce((sum, t) => sum + t.price * t.size, 0),
+      askNotional: asks.reduce((sum, t) => sum + t.price * t.size, 0),
+      bidShare: totalBid > 0 ? bidSize / totalBid : 0,
+      askShare: totalAsk > 0 ? askSize / totalAsk : 0,
     }
-    const workers = Array.from({ length: this.concurrency }, () => worker())
-    await Promise.all(workers)
-    return results
+  })
+}
+
+/** Sum sizes across venues per price, keeping the side's order */
+function priceLevels(ticks: MarketTick[]): MarketTick[] {
+  const levels: MarketTick[] = []
+  for (const { price, size } of ticks) {
+    const last = levels[levels.length - 1]
+    if (last?.price === price) last.size += size
+    else levels.push({ price, size })
+  }
+  return levels
+}
+
+function calculateImbalance(bids: MarketTick[], asks: MarketTick[], levels: number): BookImbalance {
+  const bidSize = bids.slice(0, levels).reduce((sum, t) => sum + t.size, 0)
+  const askSize = asks.slice(0, levels).reduce((sum, t) => sum + t.size, 0)
+  const total = bidSize + askSize
+  return { levels, bidSize, askSize, ratio: total > 0 ? (bidSize - askSize) / total : 0 }
+}
+
+/** Best bid/ask weighted by the opposite side's size: leans toward where the price is likely to move */
+function calculateMicroprice(bids: MarketTick[], asks: MarketTick[]): number {
+  const bid = bids[0]
+  const ask = asks[0]
+  if (!bid || !ask) return 0
+  return (bid.price * ask.size + ask.price * bid.size) / (bid.size + ask.size)
+}
+
+function detectWalls(side: "bid" | "ask", ticks: SourcedTick[], multiple: number, minLevels: number): LiquidityWall[] {
+  if (ticks.length < minLevels) return []
+  const sizes = ticks.map(t => t.size).sort((a, b) => a - b)
+  const mid = sizes.length >> 1
+  const median = sizes.length % 2 ? sizes[mid] : (sizes[mid - 1] + sizes[mid]) / 2
+  if (median <= 0) return []
+  return ticks
+    .filter(t => t.size >= median * multiple)
+    .map(t => ({ side, price: t.price, size: t.size, venue: t.venue, multiple: t.size / median }))
+}
+
+/**
+ * Previous walls missing from the book now. A wall the price traded through
+ * was most likely filled, so only walls still behind the best price on their
+ * own side count: a bid wall below the best bid, an ask wall above the best ask.
+ */
+function detectPulledWalls(previous: LiquidityWall[], book: ConsolidatedBook): LiquidityWall[] {
+  const bestBid = book.bids[0]?.price
+  const bestAsk = book.asks[0]?.price
+  return previous.filter(wall => {
+    const ticks = wall.side === "bid" ? book.bids : book.asks
+    // Half the size still resting counts as the same wall
+    const resting = ticks.some(t => t.venue === wall.venue && t.price === wall.price && t.size >= wall.size / 2)
+    if (resting || book.failures.some(f => f.venue === wall.venue)) return false
+    return wall.side === "bid" ? bestBid !== undefined && bestBid > wall.price : bestAsk !== undefined && bestAsk < wall.price
+  })
+}
+
+/**
+ * VWAPs, spread, imbalance, microprice, walls and per-venue contribution of
+ * a consolidated book, whether it was fetched over HTTP or maintained from a
+ * stream. Pass the walls of the previous book to detect pulled ones.
+ */
+export function bookMetrics(
+  book: ConsolidatedBook,
+  venues: string[],
+  opts: BookMetricsOptions = {},
+  previousWalls: LiquidityWall[] = []
+): NodexMetrics {
+  const combined = (book.bids as MarketTick[]).concat(book.asks)
+  const bids = priceLevels(book.bids)
+  const asks = priceLevels(book.asks)
+  const multiple = opts.wallMultiple ?? 5
+  const minLevels = opts.wallMinLevels ?? 5
+  return {
+    symbol: book.symbol,
+    vwap: calculateVWAP(combined),
+    bidVwap: calculateVWAP(book.bids),
+    askVwap: calculateVWAP(book.asks),
+    spread: calculateSpread(book.bids, book.asks),
+    microprice: calculateMicroprice(bids, asks),
+    imbalance: (opts.imbalanceLevels ?? [1, 5, 10]).map(n => calculateImbalance(bids, asks, n)),
+    walls: [
+      ...detectWalls("bid", book.bids, multiple, minLevels),
+      ...detectWalls("ask", book.asks, multiple, minLevels),
+    ],
+    pulledWalls: detectPulledWalls(previousWalls, book),
+    bestBidVenue: book.bids[0]?.venue ?? null,
+    bestAskVenue: book.asks[0]?.venue ?? null,
+    venues: contributions(book, venues),
   }
 }
@@ -0,0 +1,128 @@
+import fetch, { RequestInit } from "node-fetch"
+import type { MarketTick } from "./nodexEngine"
+
+export interface VenueBook {
+  bids: MarketTick[]
+  asks: MarketTick[]
+}
+
+/**
+ * One order book source (a DEX or an aggregator API). Implementations only
+ * fetch; merging and metrics happen in NodexEngine.
+ */
+export interface VenueAdapter {
+  readonly name: string
+  fetchBook(symbol: string, depth: number): Promise<VenueBook>
+}
+
+export interface HttpVenueOptions {
+  timeoutMs?: number      // per-request timeout (default: 5000)
+  retryCount?: number     // number of fetch retries (default: 2)
+  maxRetryAfterMs?: number // longest upstream Retry-After worth waiting for (default: 5000)
+}
+
+/** Upstream answered 429; `retryAfterMs` comes from its Retry-After header when present */
+export class VenueRateLimitError extends Error {
+  constructor(public readonly venue: string, public readonly retryAfterMs?: number) {
+    super(`${venue} rate limited${retryAfterMs !== undefined ? `, retry after ${retryAfterMs}ms` : ""}`)
+    this.name = "VenueRateLimitError"
+  }
+}
+
+/**
+ * Venue serving `GET {apiUrl}/markets/:symbol/orderbook?depth=N` as
+ * `{ bids, asks }` of `{ price, size }`
+ */
+export class HttpVenueAdapter implements VenueAdapter {
+  private timeoutMs: number
+  private retryCount: number
+  private maxRetryAfterMs: number
+
+  constructor(
+    public readonly name: string,
+    private apiUrl: string,
+    opts: HttpVenueOptions = {}
+  ) {
+    if (!apiUrl) throw new Error(`Venue ${name} needs an API URL`)
+    this.apiUrl = apiUrl.replace(/\/+$/, "")
+    this.timeoutMs = opts.timeoutMs ?? 5000
+    this.retryCount = opts.retryCount ?? 2
+    this.maxRetryAfterMs = opts.maxRetryAfterMs ?? 5000
+  }
+
+  async fetchBook(symbol: string, depth: number): Promise<VenueBook> {
+    const url = `${this.apiUrl}/markets/${encodeURIComponent(symbol)}/orderbook?depth=${depth}`
+    const book = await this.fetchWithTimeout<VenueBook>(url)
+    return { bids: book.bids ?? [], asks: book.asks ?? [] }
+  }
+
+  /** Utility to perform fetch with timeout and retries */
+  private async fetchWithTimeout<T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    for (let attempt = 0; attempt <= this.retryCount; attempt++) {
+      const controller = new AbortController()
+      const id = setTimeout(() => controller.abort(), this.timeoutMs)
+      try {
+        const res = await fetch(url, {
+          signal: controller.signal,
+          ...options,
+        })
+        clearTimeout(id)
+        if (res.status === 429) {
+          throw new VenueRateLimitError(this.name, retryAfterMs(res.headers.get("retry-after")))
+        }
+        if (!res.ok) {
+          throw new Error(`HTTP ${res.status}: ${res.statusText}`)
+        }
+        return (await res.json()) as T
+      } catch (err) {
+        clearTimeout(id)
+        // Waiting out a long Retry-After would only stall the caller; surface it instead
+        const wait = err instanceof VenueRateLimitError ? err.retryAfterMs ?? 1000 * (attempt + 1) : 100 * (attempt + 1)
+        if (attempt === this.retryCount || wait > this.maxRetryAfterMs) {
+          throw err
+        }
+        await new Promise((r) => setTimeout(r, wait))
+      }
+    }
+    // unreachable
+    throw new Error("Failed to fetch after retries")
+  }
+}
+
+/** Retry-After as seconds or an HTTP date, in ms */
+function retryAfterMs(header: string | null): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, Math.round(seconds * 1000))
+  const at = Date.parse(header)
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now())
+}
+
+/**
+ * Parse `name=url,name=url` into unique name/URL pairs
+ */
+export function parseNamedUrls(spec: string): Array<{ name: string; url: string }> {
+  const entries = spec
+    .split(",")
+    .map(s => s.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const eq = entry.indexOf("=")
+      if (eq <= 0 || eq === entry.length - 1) throw new Error(`Invalid venue "${entry}", expected name=url`)
+      return { name: entry.slice(0, eq).trim(), url: entry.slice(eq + 1).trim() }
+    })
+  const names = entries.map(e => e.name)
+  const duplicate = names.find((n, i) => names.indexOf(n) !== i)
+  if (duplicate) throw new Error(`Duplicate venue name: ${duplicate}`)
+  return entries
+}
+
+/**
+ * Parse `name=url,name=url` (e.g. NODEX_VENUES) into HTTP venue adapters
+ */
+export function parseVenues(spec: string, opts: HttpVenueOptions = {}): VenueAdapter[] {
+  return parseNamedUrls(spec).map(({ name, url }) => new HttpVenueAdapter(name, url, opts))
+}
@@ -1,6 +1,7 @@
 import express, { Request, Response, NextFunction } from "express"
 import { StorixClient } from "./storixClient"
 import { z } from "zod"
+import { OpenApiBuilder } from "../../autojobs/typestruct/openapi"
 
 // ---------- Env & App Setup ----------
 
@@ -35,6 +36,8 @@ const uploadBodySchema = z.object({
 
 type UploadBody = z.infer<typeof uploadBodySchema>
 
+const errorSchema = z.object({ success: z.literal(false), error: z.string() })
+
 // ---------- Utilities ----------
 
 function decodeBase64ToBuffer(b64: string): Buffer {
@@ -96,6 +99,40 @@ app.get(
   })
 )
 
+const openapiDoc = new OpenApiBuilder({ title: "Storix API", version: "1.0.0" })
+  .route("get", "/health", {
+    summary: "Liveness check",
+    responses: { 200: { description: "OK", schema: z.object({ ok: z.literal(true), time: z.string().datetime() }) } },
+  })
+  .route("post", "/storix/upload", {
+    summary: "Upload a base64-encoded blob",
+    body: uploadBodySchema,
+    responses: {
+      201: {
+        description: "Stored",
+        schema: z.object({ success: z.literal(true), key: z.string(), size: z.number().int() }),
+      },
+      400: { description: "Invalid body", schema: errorSchema },
+    },
+  })
+  .route("get", "/storix/download/:key", {
+    summary: "Download a blob",
+    params: z.object({ key: z.string().min(1) }),
+    responses: {
+      200: {
+        description: "Blob bytes",
+        contentType: "application/octet-stream",
+        schema: { type: "string", contentMediaType: "application/octet-stream" },
+      },
+      400: { description: "Missing key", schema: errorSchema },
+    },
+  })
+  .build()
+
+app.get("/openapi.json", (_req, res) => {
+  res.status(200).json(openapiDoc)
+})
+
 // 405 for other methods on known paths
 app.all("/storix/upload", (_req, res) => res.status(405).json({ success: false, error: "Method Not Allowed" }))
 app.all("/storix/download/:key", (_req, res) => res.status(405).json({ success: false, error: "Method Not Allowed" }))
@@ -1,7 +1,8 @@
 import express, { Request, Response, NextFunction } from "express"
-import { WatchRouteService } from "./watchRouteService"
+import { RouteEvent, WatchRouteService } from "./watchRouteService"
 import { z } from "zod"
 import { PublicKey } from "@solana/web3.js"
+import { OpenApiBuilder } from "../../autojobs/typestruct/openapi"
 
 // --- App setup ---
 const app = express()
@@ -21,7 +22,8 @@ if (!RPC) {
   console.error("Missing SOLANA_RPC_ENDPOINT environment variable")
   process.exit(1)
 }
-const service = new WatchRouteService(RPC)
+const service = new WatchRouteService(RPC, { wsEndpoint: process.env.SOLANA_WS_ENDPOINT })
+const HEARTBEAT_MS = 15_000
 
 // --- Helpers ---
 const isPublicKey = (s: string): boolean => {
@@ -45,6 +47,30 @@ const bodySchema = z.object({
   })
 })
 
+const streamQuerySchema = z.object({
+  addresses: z
+    .string()
+    .transform(v => Array.from(new Set(v.split(",").map(a => a.trim()).filter(Boolean))))
+    .pipe(z.array(z.string().refine(isPublicKey, "invalid Solana address")).min(1).max(100)),
+  /** Replay events newer than this Unix-ms timestamp before going live */
+  since: z.coerce.number().int().nonnegative().optional(),
+})
+
+/** SSE event id; unique per event, unlike the block time */
+const eventId = (event: RouteEvent): string => `${event.address}:${event.signature}`
+
+/**
+ * Recent events a reconnecting client has not seen yet. Events from the same
+ * second as its last one are sent again (except that one), since their order
+ * relative to it is unknown; clients dedupe by event id. Without a known last
+ * event, `since` (Unix ms) applies, or everything recent is replayed.
+ */
+function missedEvents(recent: RouteEvent[], lastEventId?: string, since?: number): RouteEvent[] {
+  const last = lastEventId ? recent.find(e => eventId(e) === lastEventId) : undefined
+  if (last) return recent.filter(e => e.timestamp >= last.timestamp && e !== last)
+  return since === undefined ? recent : recent.filter(e => e.timestamp > since)
+}
+
 // --- Content-Type guard for POSTs ---
 app.use((req, res, next) => {
   if (req.method === "POST") {
@@ -71,6 +97,107 @@ app.post("/watchroute", async (req: Request, res: Response, next: NextFunction)
   }
 })
 
+// --- Route: live stream (Server-Sent Events) ---
+app.get("/watchroute/stream", async (req: Request, res: Response, next: NextFunction) => {
+  let query: z.infer<typeof streamQuerySchema>
+  try {
+    query = streamQuerySchema.parse(req.query)
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      const errors = err.errors.map(e => ({ field: e.path.join(".") || "query", message: e.message }))
+      return res.status(400).json({ success: false, error: "invalid_request", errors })
+    }
+    return next(err)
+  }
+  // Reconnecting EventSource clients send the id (address:signature) of the last event they got
+  const lastEventId = req.header("last-event-id") || undefined
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  })
+  res.flushHeaders()
+  res.write(`retry: 3000\n\n`)
+
+  // Replayed and buffered live events can overlap; once live, the subscription dedupes on its own
+  let sent: Set<string> | undefined = new Set()
+  const send = (event: RouteEvent) => {
+    const id = eventId(event)
+    if (sent?.has(id)) return
+    sent?.add(id)
+    res.write(`id: ${id}\nevent: route\ndata: ${JSON.stringify(event)}\n\n`)
+  }
+
+  let closed = false
+  let unsubscribe: (() => Promise<void>) | undefined
+  const heartbeat = setInterval(() => res.write(`: heartbeat ${Date.now()}\n\n`), HEARTBEAT_MS)
+  req.on("close", () => {
+    closed = true
+    clearInterval(heartbeat)
+    unsubscribe?.().catch(() => undefined)
+  })
+
+  try {
+    // Subscribe before replaying so nothing lands in between; duplicates are filtered by `send`
+    const live: RouteEvent[] = []
+    let replaying = lastEventId !== undefined || query.since !== undefined
+    const stop = await service.subscribe(query.addresses, event => (replaying ? live.push(event) : send(event)))
+    if (closed) return void stop()
+    unsubscribe = stop
+    if (replaying) {
+      const recent = await service.watch(query.addresses, 100)
+      missedEvents(recent, lastEventId, query.since).forEach(send)
+      live.forEach(send)
+      replaying = false
+    }
+    sent = undefined
+  } catch (err: any) {
+    res.write(`event: error\ndata: ${JSON.stringify({ message: err?.message ?? String(err) })}\n\n`)
+    res.end()
+  }
+})
+
+// --- OpenAPI document ---
+const errorSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  message: z.string().optional(),
+  errors: z.array(z.object({ field: z.string(), message: z.string() })).optional(),
+})
+
+const openapiDoc = new OpenApiBuilder({ title: "WatchRoute API", version: "1.0.0" })
+  .route("get", "/healthz", {
+    summary: "Liveness check",
+    responses: { 200: { description: "OK", schema: z.object({ success: z.literal(true), status: z.string() }) } },
+  })
+  .route("post", "/watchroute", {
+    summary: "Recent transactions touching the given addresses",
+    body: bodySchema,
+    responses: {
+      200: {
+        description: "Route events",
+        schema: z.object({ success: z.literal(true), count: z.number().int(), events: z.array(z.unknown()) }),
+      },
+      400: { description: "Invalid request", schema: errorSchema },
+      415: { description: "Body is not JSON", schema: errorSchema },
+    },
+  })
+  .route("get", "/watchroute/stream", {
+    summary: "Live RouteEvents for a watch list as Server-Sent Events",
+    query: streamQuerySchema,
+    responses: {
+      200: { description: "Event stream of `route` events", contentType: "text/event-stream", schema: z.string() },
+      400: { description: "Invalid request", schema: errorSchema },
+    },
+  })
+  .build()
+
+app.get("/openapi.json", (_req: Request, res: Response) => {
+  res.status(200).json(openapiDoc)
+})
+
 // --- 404 fallback ---
 app.use((_req, res) => {
   res.status(404).json({ success: false, error: "not_found", message: "Route not found" })
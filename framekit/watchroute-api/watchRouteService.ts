@@ -1,16 +1,303 @@
+import { EventEmitter } from "events"
 import { Connection, PublicKey, ConfirmedSignatureInfo } from "@solana/web3.js"
 
 export interface RouteEvent {
   address: string
   signature: string
   timestamp: number
+  /** How a live event was found: pushed over the socket, or recovered by backfill */
+  source?: "live" | "backfill"
+}
+
+export interface WatchRouteOptions {
+  /** WebSocket endpoint for subscriptions (default: derived from the RPC URL) */
+  wsEndpoint?: string
+}
+
+export interface RouteSubscriptionOptions {
+  /** Signatures fetched per address when backfilling; anything older is not recovered (default: 100) */
+  backfillLimit?: number
+  /** Periodic catch-up in case a notification was lost; 0 disables (default: 60000) */
+  backfillIntervalMs?: number
+  /** Address/signature pairs remembered for dedupe (default: 10000) */
+  dedupeSize?: number
+  /**
+   * Silence on the slot subscription longer than this is treated as a dropped
+   * socket, and everything watched is backfilled once it resumes; 0 disables (default: 10000)
+   */
+  reconnectGapMs?: number
+}
+
+export interface RouteSubscriptionEvents {
+  event: (event: RouteEvent) => void
+  backfill: (info: { address: string; count: number }) => void
+  subscriptionError: (info: { address?: string; error: Error }) => void
+}
+
+type RouteListener = (event: RouteEvent) => void
+
+interface Watched {
+  key: PublicKey
+  refs: number
+  logsId: number
+  accountId: number
+  /** Newest signature backfill has covered; the next one fetches everything after it */
+  cursor?: string
+  /** Cursor has been set; until then backfill only retries that, so history is not replayed as new */
+  anchored: boolean
+}
+
+const toError = (err: unknown): Error => (err instanceof Error ? err : new Error(String(err)))
+
+/**
+ * Live watch list over one Connection: `onLogs` (mentions) streams new
+ * transactions as they land, `onAccountChange` triggers a catch-up for
+ * changes the logs feed did not report. Events are deduplicated per address
+ * and signature, and missed signatures are backfilled from the last one seen
+ * whenever the socket reconnects. web3.js resubscribes after a reconnect but
+ * does not say so; a gap in slot notifications is the signal used instead.
+ */
+export class RouteSubscription extends EventEmitter {
+  private readonly watched = new Map<string, Watched>()
+  private readonly seen = new Set<string>()
+  private readonly blockTimes = new Map<number, number>()
+  private readonly backfilling = new Map<string, Promise<void>>()
+  private readonly backfillLimit: number
+  private readonly dedupeSize: number
+  private readonly reconnectGapMs: number
+  private timer?: NodeJS.Timeout
+  private slotId?: number
+  private lastSlotAt = 0
+  private closed = false
+
+  constructor(private readonly conn: Connection, opts: RouteSubscriptionOptions = {}) {
+    super()
+    // Every caller of WatchRouteService.subscribe (one per SSE client) adds an event listener
+    this.setMaxListeners(0)
+    this.backfillLimit = opts.backfillLimit ?? 100
+    this.dedupeSize = opts.dedupeSize ?? 10_000
+    this.reconnectGapMs = opts.reconnectGapMs ?? 10_000
+    const interval = opts.backfillIntervalMs ?? 60_000
+    if (interval > 0) {
+      this.timer = setInterval(() => this.backfillAll(), interval)
+      this.timer.unref()
+    }
+    if (this.reconnectGapMs <= 0 && interval <= 0) {
+      console.warn("[RouteSubscription] Reconnect detection and periodic backfill are both off; missed events are not recovered")
+    }
+  }
+
+  public override on<K extends keyof RouteSubscriptionEvents>(event: K, listener: RouteSubscriptionEvents[K]): this {
+    return super.on(event, listener as any)
+  }
+
+  /** Addresses currently subscribed */
+  get addresses(): string[] {
+    return Array.from(this.watched.keys())
+  }
+
+  /**
+   * Start watching an address (reference counted); resolves once its cursor
+   * is set, so later backfills start from now
+   */
+  async add(address: string): Promise<void> {
+    if (this.closed) throw new Error("Subscription is closed")
+    const existing = this.watched.get(address)
+    if (existing) {
+      existing.refs++
+      return
+    }
+    const key = new PublicKey(address)
+    const entry: Watched = {
+      key,
+      refs: 1,
+      logsId: this.conn.onLogs(key, (logs, ctx) => {
+        this.publish(address, logs.signature, ctx.slot, "live").catch(err => this.fail(address, err))
+      }, "confirmed"),
+      accountId: this.conn.onAccountChange(key, () => {
+        void this.backfill(address)
+      }, "confirmed"),
+      anchored: false,
+    }
+    this.watched.set(address, entry)
+    this.watchSlots()
+    try {
+      await this.anchor(entry)
+    } catch (err) {
+      // The next backfill tries again
+      this.fail(address, err)
+    }
+  }
+
+  /** Drop one reference to an address; unsubscribes when none are left */
+  async remove(address: string): Promise<void> {
+    const entry = this.watched.get(address)
+    if (!entry || --entry.refs > 0) return
+    this.watched.delete(address)
+    const removals = [
+      this.conn.removeOnLogsListener(entry.logsId),
+      this.conn.removeAccountChangeListener(entry.accountId),
+    ]
+    if (!this.watched.size && this.slotId !== undefined) {
+      removals.push(this.conn.removeSlotChangeListener(this.slotId))
+      this.slotId = undefined
+    }
+    await Promise.allSettled(removals)
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+    if (this.timer) clearInterval(this.timer)
+    await Promise.allSettled(this.addresses.map(address => {
+      const entry = this.watched.get(address)!
+      entry.refs = 1
+      return this.remove(address)
+    }))
+    this.removeAllListeners()
+  }
+
+  /** Fetch every watched address's signatures since its cursor */
+  backfillAll(): Promise<void> {
+    return Promise.all(this.addresses.map(address => this.backfill(address))).then(() => undefined)
+  }
+
+  /**
+   * Catch up one address from its cursor; concurrent calls share one fetch.
+   * Never rejects: failures are reported as `subscriptionError`.
+   */
+  backfill(address: string): Promise<void> {
+    const running = this.backfilling.get(address)
+    if (running) return running
+    const job = this.runBackfill(address)
+      .catch(err => this.fail(address, err))
+      .finally(() => this.backfilling.delete(address))
+    this.backfilling.set(address, job)
+    return job
+  }
+
+  private async runBackfill(address: string): Promise<void> {
+    const entry = this.watched.get(address)
+    if (!entry) return
+    if (!entry.anchored) return this.anchor(entry)
+    let sigs: ConfirmedSignatureInfo[]
+    try {
+      sigs = await this.conn.getSignaturesForAddress(entry.key, { until: entry.cursor, limit: this.backfillLimit })
+    } catch (err) {
+      this.fail(address, err)
+      return
+    }
+    // Only backfill moves the cursor: live events can arrive before older missed ones are fetched
+    if (sigs.length) entry.cursor = sigs[0].signature
+    let count = 0
+    for (const s of [...sigs].reverse()) {
+      if (await this.publish(address, s.signature, s.slot, "backfill", s.blockTime)) count++
+    }
+    if (count) this.emit("backfill", { address, count })
+  }
+
+  /** Point the cursor at the newest signature, so backfills only report what lands after it */
+  private async anchor(entry: Watched): Promise<void> {
+    const [latest] = await this.conn.getSignaturesForAddress(entry.key, { limit: 1 })
+    // A concurrent anchor may have finished first
+    if (entry.anchored) return
+    entry.cursor = latest?.signature
+    entry.anchored = true
+  }
+
+  /** Slot notifications arrive every few hundred ms; a long silence means the socket was down */
+  private watchSlots(): void {
+    if (this.slotId !== undefined || this.reconnectGapMs <= 0) return
+    this.lastSlotAt = Date.now()
+    this.slotId = this.conn.onSlotChange(() => {
+      const now = Date.now()
+      const silent = now - this.lastSlotAt
+      this.lastSlotAt = now
+      if (silent >= this.reconnectGapMs) void this.backfillAll()
+    })
+  }
+
+  private fail(address: string | undefined, err: unknown): void {
+    this.emit("subscriptionError", { address, error: toError(err) })
+  }
+
+  /** Emit unless already seen; returns whether it was new */
+  private async publish(
+    address: string,
+    signature: string,
+    slot: number,
+    source: "live" | "backfill",
+    blockTime?: number | null
+  ): Promise<boolean> {
+    const entry = this.watched.get(address)
+    const id = `${address}:${signature}`
+    if (!entry || this.seen.has(id)) return false
+    this.seen.add(id)
+    if (this.seen.size > this.dedupeSize) this.seen.delete(this.seen.values().next().value!)
+
+    const timestamp = blockTime ? blockTime * 1000 : await this.blockTime(slot)
+    this.emit("event", { address, signature, timestamp, source })
+    return true
+  }
+
+  /** Block time of a slot (cached); falls back to now when the node cannot tell yet */
+  private async blockTime(slot: number): Promise<number> {
+    const cached = this.blockTimes.get(slot)
+    if (cached) return cached
+    let ms = Date.now()
+    try {
+      const t = await this.conn.getBlockTime(slot)
+      if (t) ms = t * 1000
+    } catch {
+      // fall back to observation time
+    }
+    this.blockTimes.set(slot, ms)
+    if (this.blockTimes.size > 1000) this.blockTimes.delete(this.blockTimes.keys().next().value!)
+    return ms
+  }
 }
 
 export class WatchRouteService {
   private readonly conn: Connection
+  private live?: RouteSubscription
+
+  constructor(rpcUrl: string, private readonly opts: WatchRouteOptions & RouteSubscriptionOptions = {}) {
+    this.conn = new Connection(rpcUrl, { commitment: "confirmed", wsEndpoint: opts.wsEndpoint })
+  }
+
+  /**
+   * Stream new RouteEvents for a watch list as they land. Subscriptions are
+   * shared across callers; call the returned function to stop listening.
+   */
+  async subscribe(addresses: string[], listener: RouteListener): Promise<() => Promise<void>> {
+    const live = (this.live ??= new RouteSubscription(this.conn, this.opts))
+    const wanted = new Set(addresses)
+    const onEvent = (event: RouteEvent) => {
+      if (wanted.has(event.address)) listener(event)
+    }
+    live.on("event", onEvent)
+    const added: string[] = []
+    try {
+      for (const address of wanted) {
+        await live.add(address)
+        added.push(address)
+      }
+    } catch (err) {
+      live.off("event", onEvent)
+      await Promise.all(added.map(a => live.remove(a)))
+      throw err
+    }
+    let stopped = false
+    return async () => {
+      if (stopped) return
+      stopped = true
+      live.off("event", onEvent)
+      await Promise.all(added.map(a => live.remove(a)))
+    }
+  }
 
-  constructor(rpcUrl: string) {
-    this.conn = new Connection(rpcUrl, "confirmed")
+  /** The shared live subscription, for backfill/error events; created on first subscribe */
+  get subscription(): RouteSubscription | undefined {
+    return this.live
   }
 
   /**
@@ -0,0 +1,88 @@
+import { Job, JobStatus } from './jobTracker'
+import type { Task } from '../autojobs/tasks/TaskManager'
+import type { HubTask } from '../autojobs/mainhub/MainHubService'
+import type { PipelineDefinition, PipelineRun } from '../autojobs/mainhub/pipeline'
+
+/** Job type used for plain TaskManager tasks */
+export const TASK_JOB_TYPE = 'task'
+
+/** Prefix namespacing MainHubService task types inside the tracker */
+export const HUB_JOB_PREFIX = 'hub.'
+
+/** Job type recording a MainHubService pipeline run; no runner executes it */
+export const PIPELINE_JOB_TYPE = 'pipeline'
+
+/** What a pipeline job stores: the definition as payload, node progress as result */
+export interface PipelineJobPayload {
+  definition: PipelineDefinition
+  resumedFrom?: string
+}
+
+export type PipelineJobResult = Pick<PipelineRun, 'nodes' | 'startedAt' | 'finishedAt'>
+
+const HUB_STATUS: Record<JobStatus, HubTask['status']> = {
+  [JobStatus.Pending]: 'pending',
+  [JobStatus.Running]: 'running',
+  [JobStatus.Completed]: 'done',
+  [JobStatus.Failed]: 'error',
+}
+
+export const hubJobType = (type: string): string => `${HUB_JOB_PREFIX}${type}`
+
+export const isTaskJob = (job: Job): boolean => job.type === TASK_JOB_TYPE
+
+export const isHubJob = (job: Job): boolean => !!job.type?.startsWith(HUB_JOB_PREFIX)
+
+export const isPipelineJob = (job: Job): boolean => job.type === PIPELINE_JOB_TYPE
+
+const PIPELINE_STATUS: Record<JobStatus, PipelineRun['status']> = {
+  [JobStatus.Pending]: 'running',
+  [JobStatus.Running]: 'running',
+  [JobStatus.Completed]: 'done',
+  [JobStatus.Failed]: 'error',
+}
+
+/**
+ * View any job as a TaskManager task
+ */
+export function toTask(job: Job): Task {
+  return {
+    id: job.id,
+    title: job.title,
+    payload: job.payload,
+    createdAt: job.createdAt.getTime(),
+    type: job.type,
+    status: job.status,
+  }
+}
+
+/**
+ * View a hub job as a MainHubService task
+ */
+export function toHubTask(job: Job): HubTask {
+  return {
+    id: job.id,
+    type: job.type?.slice(HUB_JOB_PREFIX.length) ?? '',
+    params: (job.payload ?? {}) as Record<string, any>,
+    status: HUB_STATUS[job.status],
+    result: job.result,
+    error: job.error,
+  }
+}
+
+/**
+ * View a pipeline job as the run it records
+ */
+export function toPipelineRun(job: Job): PipelineRun {
+  const { definition, resumedFrom } = job.payload as PipelineJobPayload
+  const progress = job.result as PipelineJobResult | undefined
+  return {
+    id: job.id,
+    resumedFrom,
+    definition,
+    status: PIPELINE_STATUS[job.status],
+    nodes: progress?.nodes ?? {},
+    startedAt: progress?.startedAt ?? job.createdAt.getTime(),
+    finishedAt: progress?.finishedAt,
+  }
+}
@@ -0,0 +1,90 @@
+import { Job, JobTracker } from './jobTracker'
+
+export type JobEventType = 'jobCreated' | 'jobUpdated' | 'jobRemoved'
+
+export interface JobEvent {
+  /** Monotonic sequence number, used as the SSE event id */
+  readonly id: number
+  readonly type: JobEventType
+  readonly jobId: string
+  /** Snapshot of the job; absent for jobRemoved */
+  readonly job?: Job
+  readonly at: Date
+}
+
+export interface JobEventFilter {
+  statuses?: string[]
+  ids?: string[]
+}
+
+export type JobEventListener = (event: JobEvent) => void
+
+/**
+ * Check an event against status/id filters.
+ * Removal events carry no status, so they only have to match the id filter.
+ */
+export const matchesFilter = (event: JobEvent, filter: JobEventFilter = {}): boolean => {
+  if (filter.ids?.length && !filter.ids.includes(event.jobId)) return false
+  if (filter.statuses?.length && event.job && !filter.statuses.includes(event.job.status)) return false
+  return true
+}
+
+/**
+ * Sequenced view of JobTracker events with a bounded replay buffer,
+ * so reconnecting clients can resume from their last seen id. With a
+ * store that follows a shared log, jobs changed by other processes show
+ * up here too.
+ */
+export class JobEventFeed {
+  private readonly buffer: JobEvent[] = []
+  private readonly listeners = new Set<JobEventListener>()
+  private seq = 0
+
+  private readonly onCreated = (job: Job) => this.push('jobCreated', job.id, job)
+  private readonly onUpdated = (job: Job) => this.push('jobUpdated', job.id, job)
+  private readonly onRemoved = (id: string) => this.push('jobRemoved', id)
+
+  constructor(private readonly tracker: JobTracker, private readonly capacity = 1000) {
+    tracker.on('jobCreated', this.onCreated)
+    tracker.on('jobUpdated', this.onUpdated)
+    tracker.on('jobRemoved', this.onRemoved)
+  }
+
+  /** Id of the most recent event, 0 if none yet */
+  public get lastId(): number {
+    return this.seq
+  }
+
+  /**
+   * Buffered events after `lastId`. Returns null when that id has already
+   * been evicted, or is ahead of this feed (it came from before a restart),
+   * meaning the caller missed events and must resync.
+   */
+  public since(lastId: number): JobEvent[] | null {
+    if (lastId > this.seq) return null
+    if (lastId === this.seq) return []
+    const oldest = this.buffer[0]?.id ?? this.seq + 1
+    if (lastId < oldest - 1) return null
+    return this.buffer.filter(e => e.id > lastId)
+  }
+
+  public subscribe(listener: JobEventListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /** Detach from the tracker and drop all listeners */
+  public close(): void {
+    this.tracker.off('jobCreated', this.onCreated)
+    this.tracker.off('jobUpdated', this.onUpdated)
+    this.tracker.off('jobRemoved', this.onRemoved)
+    this.listeners.clear()
+  }
+
+  private push(type: JobEventType, jobId: string, job?: Job): void {
+    const event: JobEvent = { id: ++this.seq, type, jobId, job, at: new Date() }
+    this.buffer.push(event)
+    if (this.buffer.length > this.capacity) this.buffer.shift()
+    this.listeners.forEach(listener => listener(event))
+  }
+}
@@ -0,0 +1,372 @@
+import os from 'os'
+import { randomUUID } from 'crypto'
+import { Job, JobStatus, JobTracker } from './jobTracker'
+
+export interface JobContext {
+  readonly job: Job
+  /** 1-based attempt number */
+  readonly attempt: number
+  /** Aborted when the job times out or the runner stops */
+  readonly signal: AbortSignal
+  /** Report completion percentage (0–100) */
+  progress(percent: number): void
+}
+
+export type JobHandler<P = any, R = unknown> = (payload: P, ctx: JobContext) => Promise<R> | R
+
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number
+  /** Delay before the second attempt */
+  backoffMs: number
+  /** Multiplier applied per further attempt (default: 2) */
+  factor?: number
+  /** Upper bound for a single delay */
+  maxBackoffMs?: number
+}
+
+export interface HandlerOptions {
+  timeoutMs?: number
+  retry?: Partial<RetryPolicy>
+}
+
+export interface JobRunnerOptions {
+  /** Jobs executed in parallel (default: 4) */
+  concurrency?: number
+  /** Per-attempt timeout when neither job nor handler set one (default: 60000) */
+  defaultTimeoutMs?: number
+  retry?: Partial<RetryPolicy>
+  /**
+   * Identifies this runner in job leases (default: host:pid:random). Give a restarted
+   * process the same id to take its own interrupted jobs back without waiting for expiry.
+   */
+  owner?: string
+  /** How long a Running job stays claimed without a heartbeat (default: 30000) */
+  leaseMs?: number
+}
+
+export interface SubmitOptions {
+  title?: string
+  timeoutMs?: number
+  maxAttempts?: number
+  actor?: string
+}
+
+export class JobTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Job timed out after ${timeoutMs}ms`)
+    this.name = 'JobTimeoutError'
+  }
+}
+
+const DEFAULT_RETRY: RetryPolicy = { maxAttempts: 1, backoffMs: 1_000, factor: 2, maxBackoffMs: 60_000 }
+
+const RUNNER_ACTOR = 'runner'
+
+const isFinal = (status: JobStatus) => status === JobStatus.Completed || status === JobStatus.Failed
+
+/**
+ * Bounded worker pool that executes tracker jobs through registered handlers.
+ * Drives Running/Completed/Failed transitions, per-attempt timeouts and
+ * retries with exponential backoff.
+ */
+export class JobRunner {
+  private readonly handlers = new Map<string, { handler: JobHandler; options: HandlerOptions }>()
+  private readonly queue: string[] = []
+  private readonly active = new Map<string, AbortController>()
+  private readonly retryTimers = new Map<string, NodeJS.Timeout>()
+  private readonly concurrency: number
+  private readonly defaultTimeoutMs: number
+  private readonly retry: RetryPolicy
+  private readonly leaseMs: number
+  private heartbeat?: NodeJS.Timeout
+  private started = false
+  private stopped = false
+
+  /** Written to `owner` on every job this runner claims */
+  public readonly owner: string
+
+  constructor(private readonly tracker: JobTracker, opts: JobRunnerOptions = {}) {
+    this.concurrency = Math.max(1, opts.concurrency ?? 4)
+    this.defaultTimeoutMs = opts.defaultTimeoutMs ?? 60_000
+    this.retry = { ...DEFAULT_RETRY, ...opts.retry }
+    this.owner = opts.owner ?? `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+    this.leaseMs = Math.max(1_000, opts.leaseMs ?? 30_000)
+  }
+
+  /**
+   * Register the handler executed for jobs of the given type
+   */
+  public register<P = any, R = unknown>(
+    type: string,
+    handler: JobHandler<P, R>,
+    options: HandlerOptions = {}
+  ): this {
+    this.handlers.set(type, { handler: handler as JobHandler, options })
+    return this
+  }
+
+  public hasHandler(type: string): boolean {
+    return this.handlers.has(type)
+  }
+
+  public types(): string[] {
+    return Array.from(this.handlers.keys())
+  }
+
+  /**
+   * Create a job for a registered type and queue it for execution
+   */
+  public submit(type: string, payload?: unknown, opts: SubmitOptions = {}): Job {
+    const entry = this.handlers.get(type)
+    if (!entry) throw new Error(`No handler registered for job type: ${type}`)
+    const job = this.tracker.create(opts.title ?? type, {
+      type,
+      payload,
+      timeoutMs: opts.timeoutMs ?? entry.options.timeoutMs,
+      maxAttempts: opts.maxAttempts ?? entry.options.retry?.maxAttempts ?? this.retry.maxAttempts,
+      actor: opts.actor,
+    })
+    this.schedule(job.id)
+    return job
+  }
+
+  /**
+   * Queue an existing pending job
+   */
+  public schedule(id: string): void {
+    if (this.stopped) throw new Error('JobRunner is stopped')
+    const job = this.tracker.get(id)
+    if (!job) throw new Error(`Job not found: ${id}`)
+    if (!job.type || !this.handlers.has(job.type)) {
+      throw new Error(`No handler registered for job type: ${job.type ?? '(none)'}`)
+    }
+    if (this.queue.includes(id) || this.active.has(id)) return
+    this.queue.push(id)
+    this.pump()
+  }
+
+  /**
+   * Resolve once the job reaches Completed or Failed; rejects if it is removed
+   */
+  public waitFor(id: string): Promise<Job> {
+    const current = this.tracker.get(id)
+    if (!current) return Promise.reject(new Error(`Job not found: ${id}`))
+    if (isFinal(current.status)) return Promise.resolve(current)
+
+    return new Promise((resolve, reject) => {
+      const onUpdated = (job: Job) => {
+        if (job.id !== id || !isFinal(job.status)) return
+        cleanup()
+        resolve(job)
+      }
+      const onRemoved = (removedId: string) => {
+        if (removedId !== id) return
+        cleanup()
+        reject(new Error(`Job removed: ${id}`))
+      }
+      const cleanup = () => {
+        this.tracker.off('jobUpdated', onUpdated)
+        this.tracker.off('jobRemoved', onRemoved)
+      }
+      this.tracker.on('jobUpdated', onUpdated)
+      this.tracker.on('jobRemoved', onRemoved)
+    })
+  }
+
+  /**
+   * Re-queue pending jobs and Running jobs abandoned by a previous process: those
+   * this runner owned and those whose lease expired. Jobs still leased by another
+   * live process sharing the store are left alone. While started, abandoned jobs
+   * are reclaimed on every heartbeat as well. Returns the number of jobs queued.
+   */
+  public start(): number {
+    this.stopped = false
+    this.started = true
+    let queued = this.reclaimAbandoned()
+    for (const job of this.tracker.list({ status: JobStatus.Pending })) {
+      if (!job.type || !this.handlers.has(job.type)) continue
+      this.schedule(job.id)
+      queued++
+    }
+    this.syncHeartbeat()
+    return queued
+  }
+
+  /**
+   * Cancel a queued, retrying or running job: aborts its signal and marks it Failed.
+   * Returns false if the job is not pending or running.
+   */
+  public cancel(id: string, reason = 'Cancelled'): boolean {
+    const job = this.tracker.get(id)
+    if (!job || (job.status !== JobStatus.Pending && job.status !== JobStatus.Running)) return false
+
+    const queuedAt = this.queue.indexOf(id)
+    if (queuedAt >= 0) this.queue.splice(queuedAt, 1)
+    clearTimeout(this.retryTimers.get(id))
+    this.retryTimers.delete(id)
+
+    // Settle first so the aborted attempt sees it is no longer Running and stays quiet
+    this.tracker.update(id, { status: JobStatus.Failed, error: reason }, RUNNER_ACTOR)
+    this.active.get(id)?.abort()
+    return true
+  }
+
+  /**
+   * Stop accepting work, abort running attempts and cancel pending retries
+   */
+  public stop(): void {
+    this.stopped = true
+    this.started = false
+    this.queue.length = 0
+    this.retryTimers.forEach(timer => clearTimeout(timer))
+    this.retryTimers.clear()
+    this.active.forEach((controller, id) => {
+      // Hand interrupted jobs over right away rather than after the lease runs out
+      if (this.isStillRunning(id)) this.tracker.update(id, { leaseExpiresAt: new Date() })
+      controller.abort()
+    })
+    this.syncHeartbeat()
+  }
+
+  private pump(): void {
+    while (!this.stopped && this.active.size < this.concurrency && this.queue.length) {
+      const id = this.queue.shift()!
+      const controller = new AbortController()
+      this.active.set(id, controller)
+      this.execute(id, controller)
+        .catch(err => console.error(`[JobRunner] Unexpected failure for ${id}:`, err))
+        .finally(() => {
+          this.active.delete(id)
+          this.pump()
+          this.syncHeartbeat()
+        })
+    }
+    this.syncHeartbeat()
+  }
+
+  /**
+   * Move abandoned Running jobs back to Pending and queue them. Counts only jobs
+   * this runner has a handler for.
+   */
+  private reclaimAbandoned(): number {
+    const now = Date.now()
+    let queued = 0
+    for (const job of this.tracker.list({ status: JobStatus.Running })) {
+      if (!job.type || !this.handlers.has(job.type) || this.active.has(job.id)) continue
+      const expired = !job.leaseExpiresAt || job.leaseExpiresAt.getTime() <= now
+      if (job.owner !== this.owner && !expired) continue
+      this.tracker.update(
+        job.id,
+        { status: JobStatus.Pending, error: 'Interrupted by restart', owner: undefined, leaseExpiresAt: undefined },
+        RUNNER_ACTOR
+      )
+      this.schedule(job.id)
+      queued++
+    }
+    return queued
+  }
+
+  /** Heartbeat runs while jobs are executing or the runner is started */
+  private syncHeartbeat(): void {
+    const needed = !this.stopped && (this.started || this.active.size > 0)
+    if (needed && !this.heartbeat) {
+      this.heartbeat = setInterval(() => this.beat(), Math.floor(this.leaseMs / 3))
+      this.heartbeat.unref()
+    } else if (!needed && this.heartbeat) {
+      clearInterval(this.heartbeat)
+      this.heartbeat = undefined
+    }
+  }
+
+  /** Extend leases of our running jobs and pick up jobs other runners abandoned */
+  private beat(): void {
+    try {
+      const leaseExpiresAt = new Date(Date.now() + this.leaseMs)
+      for (const id of this.active.keys()) {
+        if (this.isStillRunning(id)) this.tracker.update(id, { leaseExpiresAt })
+      }
+      if (this.started) this.reclaimAbandoned()
+    } catch (err) {
+      console.error('[JobRunner] Heartbeat failed:', err)
+    }
+  }
+
+  private async execute(id: string, controller: AbortController): Promise<void> {
+    const queued = this.tracker.get(id)
+    // Removed or settled while waiting in the queue
+    if (!queued || queued.status !== JobStatus.Pending) return
+    const entry = this.handlers.get(queued.type!)!
+
+    const attempt = queued.attempts + 1
+    const job = this.tracker.update(
+      id,
+      {
+        status: JobStatus.Running,
+        attempts: attempt,
+        progress: 0,
+        owner: this.owner,
+        leaseExpiresAt: new Date(Date.now() + this.leaseMs),
+      },
+      RUNNER_ACTOR
+    )
+    const timeoutMs = job.timeoutMs ?? entry.options.timeoutMs ?? this.defaultTimeoutMs
+
+    const ctx: JobContext = {
+      job,
+      attempt,
+      signal: controller.signal,
+      progress: percent => {
+        if (controller.signal.aborted || !this.isStillRunning(id)) return
+        this.tracker.update(id, { progress: percent })
+      },
+    }
+
+    let timer: NodeJS.Timeout | undefined
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort()
+          reject(new JobTimeoutError(timeoutMs))
+        }, timeoutMs)
+      })
+      const result = await Promise.race([Promise.resolve(entry.handler(job.payload, ctx)), timeout])
+      if (!this.isStillRunning(id)) return
+      this.tracker.update(id, { status: JobStatus.Completed, progress: 100, result, error: undefined }, RUNNER_ACTOR)
+    } catch (err: any) {
+      // Left Running on shutdown so the next start() picks it up again
+      if (this.stopped || !this.isStillRunning(id)) return
+      const message = err?.message ?? String(err)
+      if (attempt < job.maxAttempts) {
+        this.tracker.update(id, { status: JobStatus.Pending, error: message }, RUNNER_ACTOR)
+        this.retryLater(id, attempt, entry.options.retry)
+      } else {
+        this.tracker.update(id, { status: JobStatus.Failed, error: message }, RUNNER_ACTOR)
+      }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * False once the job was removed, moved out of Running by someone else (e.g. failed
+   * via the API) or reclaimed by another runner after our lease lapsed
+   */
+  private isStillRunning(id: string): boolean {
+    const job = this.tracker.get(id)
+    return job?.status === JobStatus.Running && job.owner === this.owner
+  }
+
+  private retryLater(id: string, attempt: number, override?: Partial<RetryPolicy>): void {
+    const policy = { ...this.retry, ...override }
+    const delay = Math.min(
+      policy.backoffMs * Math.pow(policy.factor ?? 2, attempt - 1),
+      policy.maxBackoffMs ?? Infinity
+    )
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(id)
+      if (!this.stopped && this.tracker.get(id)) this.schedule(id)
+    }, delay)
+    this.retryTimers.set(id, timer)
+  }
+}
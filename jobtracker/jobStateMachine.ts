@@ -0,0 +1,50 @@
+export enum JobStatus {
+  Pending = 'pending',
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+}
+
+export const JOB_STATUSES = Object.values(JobStatus) as JobStatus[]
+
+/**
+ * Legal status transitions. Completed is terminal; Failed may only be re-queued.
+ * Running -> Pending covers retries and jobs interrupted by a restart.
+ */
+export const JOB_TRANSITIONS: Readonly<Record<JobStatus, readonly JobStatus[]>> = Object.freeze({
+  [JobStatus.Pending]: [JobStatus.Running, JobStatus.Failed],
+  [JobStatus.Running]: [JobStatus.Completed, JobStatus.Failed, JobStatus.Pending],
+  [JobStatus.Completed]: [],
+  [JobStatus.Failed]: [JobStatus.Pending],
+})
+
+/** One recorded status change */
+export interface JobTransition {
+  /** null for the initial state on creation */
+  from: JobStatus | null
+  to: JobStatus
+  at: Date
+  actor: string
+}
+
+export class InvalidTransitionError extends Error {
+  public readonly allowed: readonly JobStatus[]
+
+  constructor(public readonly from: JobStatus, public readonly to: JobStatus) {
+    super(`Illegal job status transition: ${from} -> ${to}`)
+    this.name = 'InvalidTransitionError'
+    this.allowed = JOB_TRANSITIONS[from]
+  }
+}
+
+export const allowedTransitions = (from: JobStatus): readonly JobStatus[] => JOB_TRANSITIONS[from]
+
+export const canTransition = (from: JobStatus, to: JobStatus): boolean =>
+  JOB_TRANSITIONS[from].includes(to)
+
+/**
+ * Throw InvalidTransitionError unless `from -> to` is legal
+ */
+export function assertTransition(from: JobStatus, to: JobStatus): void {
+  if (!canTransition(from, to)) throw new InvalidTransitionError(from, to)
+}
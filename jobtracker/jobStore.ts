@@ -0,0 +1,331 @@
+import fs from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import type { Job, JobStatus } from './jobTracker'
+
+export interface JobQuery {
+  status?: JobStatus
+  offset?: number
+  limit?: number
+}
+
+/** A change made to the store by someone other than this process */
+export type JobStoreChange =
+  | { event: 'jobCreated' | 'jobUpdated'; job: Job }
+  | { event: 'jobRemoved'; id: string }
+
+/**
+ * Storage backend used by JobTracker
+ */
+export interface JobStore {
+  get(id: string): Job | undefined
+  insert(job: Job): void
+  save(job: Job): void
+  delete(id: string): boolean
+  ids(): string[]
+  list(query?: JobQuery): Job[]
+  count(status?: JobStatus): number
+  /** Stores shared between processes report changes made elsewhere; returns an unsubscribe */
+  subscribe?(listener: (change: JobStoreChange) => void): () => void
+}
+
+/**
+ * Apply offset/limit and status filtering while iterating, without copying the whole collection
+ */
+const select = (jobs: Iterable<Job>, query: JobQuery = {}): Job[] => {
+  const offset = Math.max(query.offset ?? 0, 0)
+  const limit = query.limit ?? Infinity
+  const out: Job[] = []
+  let skipped = 0
+  for (const job of jobs) {
+    if (out.length >= limit) break
+    if (query.status && job.status !== query.status) continue
+    if (skipped < offset) {
+      skipped++
+      continue
+    }
+    out.push(job)
+  }
+  return out
+}
+
+/**
+ * Default volatile store, backed by an insertion-ordered Map
+ */
+export class MemoryJobStore implements JobStore {
+  protected jobs = new Map<string, Job>()
+
+  public get(id: string): Job | undefined {
+    return this.jobs.get(id)
+  }
+
+  public insert(job: Job): void {
+    this.jobs.set(job.id, job)
+  }
+
+  public save(job: Job): void {
+    this.jobs.set(job.id, job)
+  }
+
+  public delete(id: string): boolean {
+    return this.jobs.delete(id)
+  }
+
+  public ids(): string[] {
+    return Array.from(this.jobs.keys())
+  }
+
+  public list(query?: JobQuery): Job[] {
+    return select(this.jobs.values(), query)
+  }
+
+  public count(status?: JobStatus): number {
+    if (!status) return this.jobs.size
+    let n = 0
+    for (const job of this.jobs.values()) {
+      if (job.status === status) n++
+    }
+    return n
+  }
+}
+
+/** `writer` identifies the store instance that appended the entry */
+type LogEntry = JobStoreChange & { writer?: string }
+
+const reviveJob = (raw: any): Job => ({
+  ...raw,
+  createdAt: new Date(raw.createdAt),
+  updatedAt: new Date(raw.updatedAt),
+  // Entries written before execution fields existed
+  progress: raw.progress ?? 0,
+  attempts: raw.attempts ?? 0,
+  maxAttempts: raw.maxAttempts ?? 1,
+  leaseExpiresAt: raw.leaseExpiresAt ? new Date(raw.leaseExpiresAt) : undefined,
+  history: (raw.history ?? []).map((t: any) => ({ ...t, at: new Date(t.at) })),
+})
+
+export interface FileJobStoreOptions {
+  /** Rewrite the log as a snapshot on open once it holds this many more entries than live jobs (default: 1000) */
+  compactThreshold?: number
+  /**
+   * Pick up entries appended by other processes sharing the same log before every read
+   * (default: false). Lets separate services and CLIs report the same jobs.
+   */
+  followExternalWrites?: boolean
+  /** How often to check the log for external writes while someone is subscribed (default: 1000) */
+  pollIntervalMs?: number
+}
+
+/**
+ * Restart-safe store backed by an append-only JSON-lines log.
+ * Every jobCreated/jobUpdated/jobRemoved event is appended synchronously
+ * and replayed into memory when the store is opened.
+ */
+export class FileJobStore extends MemoryJobStore {
+  private readonly compactThreshold: number
+  private readonly follow: boolean
+  private readonly pollIntervalMs: number
+  private readonly listeners = new Set<(change: JobStoreChange) => void>()
+  /** Tags our appends so replay can tell them from other processes' */
+  private readonly writer = randomUUID()
+  private poller?: NodeJS.Timeout
+  private entries = 0
+  /** Bytes of the log already replayed */
+  private offset = 0
+
+  constructor(private readonly filePath: string, opts: FileJobStoreOptions = {}) {
+    super()
+    this.compactThreshold = opts.compactThreshold ?? 1000
+    this.follow = opts.followExternalWrites ?? false
+    this.pollIntervalMs = opts.pollIntervalMs ?? 1000
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    this.replay()
+    this.terminateTornLine()
+    if (this.entries - this.jobs.size >= this.compactThreshold) {
+      this.compact()
+    }
+  }
+
+  public override get(id: string): Job | undefined {
+    this.refresh()
+    return super.get(id)
+  }
+
+  public override ids(): string[] {
+    this.refresh()
+    return super.ids()
+  }
+
+  public override list(query?: JobQuery): Job[] {
+    this.refresh()
+    return super.list(query)
+  }
+
+  public override count(status?: JobStatus): number {
+    this.refresh()
+    return super.count(status)
+  }
+
+  public override insert(job: Job): void {
+    super.insert(job)
+    this.append({ event: 'jobCreated', job })
+  }
+
+  public override save(job: Job): void {
+    super.save(job)
+    this.append({ event: 'jobUpdated', job })
+  }
+
+  public override delete(id: string): boolean {
+    this.refresh()
+    const existed = super.delete(id)
+    if (existed) this.append({ event: 'jobRemoved', id })
+    return existed
+  }
+
+  /**
+   * Listen for jobs created, updated or removed by other processes sharing the log.
+   * Only reports anything with followExternalWrites; the log is polled while subscribed.
+   */
+  public subscribe(listener: (change: JobStoreChange) => void): () => void {
+    this.listeners.add(listener)
+    if (this.follow && !this.poller) {
+      this.poller = setInterval(() => {
+        try {
+          this.refresh()
+        } catch (err: any) {
+          console.warn(`[JobStore] Failed to read ${this.filePath}: ${err?.message ?? err}`)
+        }
+      }, this.pollIntervalMs)
+      this.poller.unref()
+    }
+    return () => {
+      this.listeners.delete(listener)
+      if (!this.listeners.size) {
+        clearInterval(this.poller)
+        this.poller = undefined
+      }
+    }
+  }
+
+  /**
+   * Rewrite the log so it only contains one jobCreated entry per live job
+   */
+  public compact(): void {
+    const tmp = `${this.filePath}.tmp`
+    const lines = Array.from(this.jobs.values()).map(job =>
+      JSON.stringify({ event: 'jobCreated', job } as LogEntry)
+    )
+    const content = lines.length ? lines.join('\n') + '\n' : ''
+    fs.writeFileSync(tmp, content)
+    fs.renameSync(tmp, this.filePath)
+    this.entries = lines.length
+    this.offset = Buffer.byteLength(content)
+  }
+
+  private append(entry: LogEntry): void {
+    const line = JSON.stringify({ ...entry, writer: this.writer }) + '\n'
+    const bytes = Buffer.byteLength(line)
+    const size = () => (fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0)
+    // Nothing unread before our line and nobody appended alongside it: skip past it directly
+    const caughtUp = size() === this.offset
+    fs.appendFileSync(this.filePath, line)
+    this.entries++
+    if (caughtUp && size() === this.offset + bytes) this.offset += bytes
+  }
+
+  /**
+   * A crash mid-append leaves a line without its newline; terminate it so
+   * our next entry does not get glued onto it, and skip past it
+   */
+  private terminateTornLine(): void {
+    if (!fs.existsSync(this.filePath)) return
+    if (fs.statSync(this.filePath).size > this.offset) {
+      console.warn(`[JobStore] Skipping torn final line in ${this.filePath}`)
+      fs.appendFileSync(this.filePath, '\n')
+      this.offset = fs.statSync(this.filePath).size
+    }
+  }
+
+  /**
+   * Replay entries written since the last read when following external writes,
+   * and report them to subscribers
+   */
+  private refresh(): void {
+    if (!this.follow || !fs.existsSync(this.filePath)) return
+    const size = fs.statSync(this.filePath).size
+    if (size === this.offset) return
+    if (size >= this.offset) {
+      this.notify(this.replay())
+      return
+    }
+
+    // Log was compacted by another process; rebuild from scratch and report the difference
+    const before = new Map(this.jobs)
+    this.jobs.clear()
+    this.entries = 0
+    this.offset = 0
+    this.replay()
+    const changes: JobStoreChange[] = []
+    for (const id of before.keys()) {
+      if (!this.jobs.has(id)) changes.push({ event: 'jobRemoved', id })
+    }
+    for (const job of this.jobs.values()) {
+      const previous = before.get(job.id)
+      if (!previous) changes.push({ event: 'jobCreated', job })
+      else if (previous.updatedAt.getTime() !== job.updatedAt.getTime()) changes.push({ event: 'jobUpdated', job })
+    }
+    this.notify(changes)
+  }
+
+  private notify(changes: JobStoreChange[]): void {
+    for (const change of changes) {
+      this.listeners.forEach(listener => listener(change))
+    }
+  }
+
+  /**
+   * Replay complete lines from the current offset and return the entries applied.
+   * Our own appends are already in memory and counted, so they are skipped.
+   */
+  private replay(): JobStoreChange[] {
+    const applied: JobStoreChange[] = []
+    if (!fs.existsSync(this.filePath)) return applied
+    const fd = fs.openSync(this.filePath, 'r')
+    let chunk: string
+    try {
+      const size = fs.fstatSync(fd).size
+      const buf = Buffer.alloc(size - this.offset)
+      fs.readSync(fd, buf, 0, buf.length, this.offset)
+      chunk = buf.toString('utf8')
+    } finally {
+      fs.closeSync(fd)
+    }
+
+    // Leave a trailing partial line for the next read; another writer may still be appending it
+    const end = chunk.lastIndexOf('\n') + 1
+    this.offset += Buffer.byteLength(chunk.slice(0, end))
+
+    for (const line of chunk.slice(0, end).split('\n')) {
+      if (!line.trim()) continue
+      let entry: LogEntry
+      try {
+        entry = JSON.parse(line)
+      } catch {
+        console.warn(`[JobStore] Skipping unreadable log line in ${this.filePath}`)
+        continue
+      }
+      if (entry.writer === this.writer) continue
+      this.entries++
+      if (entry.event === 'jobRemoved') {
+        this.jobs.delete(entry.id)
+        applied.push({ event: 'jobRemoved', id: entry.id })
+      } else {
+        const job = reviveJob(entry.job)
+        this.jobs.set(job.id, job)
+        applied.push({ event: entry.event, job })
+      }
+    }
+    return applied
+  }
+}
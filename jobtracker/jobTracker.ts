@@ -1,12 +1,10 @@
 import { EventEmitter } from 'events'
 import { v4 as uuidv4 } from 'uuid'
+import { JobStore, MemoryJobStore } from './jobStore'
+import { JobStatus, JobTransition, assertTransition } from './jobStateMachine'
 
-export enum JobStatus {
-  Pending = 'pending',
-  Running = 'running',
-  Completed = 'completed',
-  Failed = 'failed',
-}
+export { JobStatus, InvalidTransitionError } from './jobStateMachine'
+export type { JobTransition } from './jobStateMachine'
 
 export interface Job {
   readonly id: string
@@ -14,11 +12,43 @@ export interface Job {
   status: JobStatus
   readonly createdAt: Date
   updatedAt: Date
+  /** Handler type executed by JobRunner; absent for manually tracked jobs */
+  readonly type?: string
+  readonly payload?: unknown
+  /** Completion percentage, 0–100 */
+  progress: number
+  result?: unknown
+  error?: string
+  /** Number of execution attempts started so far */
+  attempts: number
+  readonly maxAttempts: number
+  readonly timeoutMs?: number
+  /** Id of the JobRunner executing the job while it is Running */
+  owner?: string
+  /** Running jobs whose lease has lapsed were abandoned and may be reclaimed by any runner */
+  leaseExpiresAt?: Date
+  /** Every status transition, oldest first */
+  history: JobTransition[]
+}
+
+export interface JobOptions {
+  type?: string
+  payload?: unknown
+  maxAttempts?: number
+  timeoutMs?: number
+  /** Recorded as the actor of the initial transition (default: "system") */
+  actor?: string
 }
 
 export interface JobUpdate {
   title?: string
   status?: JobStatus
+  progress?: number
+  result?: unknown
+  error?: string
+  attempts?: number
+  owner?: string
+  leaseExpiresAt?: Date
 }
 
 export interface JobTrackerEvents {
@@ -30,13 +60,20 @@ export interface JobTrackerEvents {
 /**
  * Utility to clone and freeze a job object
  */
-const cloneJob = (job: Job): Job => Object.freeze({ ...job })
+const cloneJob = (job: Job): Job => Object.freeze({ ...job, history: [...job.history] })
 
 /**
- * In-memory job manager with event support
+ * Job manager with event support, backed by a pluggable JobStore.
+ * Changes other processes make to a shared store are emitted as well.
  */
 export class JobTracker extends EventEmitter {
-  private jobs = new Map<string, Job>()
+  constructor(private readonly store: JobStore = new MemoryJobStore()) {
+    super()
+    store.subscribe?.(change => {
+      if (change.event === 'jobRemoved') this.emit('jobRemoved', change.id)
+      else this.emit(change.event, cloneJob(change.job))
+    })
+  }
 
   // Overloaded event handlers for strong typing
   public override on<K extends keyof JobTrackerEvents>(
@@ -56,7 +93,7 @@ export class JobTracker extends EventEmitter {
   /**
    * Create and store a new job
    */
-  public create(title: string): Job {
+  public create(title: string, options: JobOptions = {}): Job {
     const now = new Date()
     const job: Job = {
       id: uuidv4(),
@@ -64,59 +101,95 @@ export class JobTracker extends EventEmitter {
       status: JobStatus.Pending,
       createdAt: now,
       updatedAt: now,
+      type: options.type,
+      payload: options.payload,
+      progress: 0,
+      attempts: 0,
+      maxAttempts: Math.max(1, options.maxAttempts ?? 1),
+      timeoutMs: options.timeoutMs,
+      history: [{ from: null, to: JobStatus.Pending, at: now, actor: options.actor ?? 'system' }],
     }
-    this.jobs.set(job.id, job)
+    this.store.insert(job)
     this.emit('jobCreated', cloneJob(job))
     return cloneJob(job)
   }
 
   /**
-   * Get all jobs with optional filters and pagination
+   * Get all jobs with optional filters and pagination.
+   * Accepts either page/pageSize or offset/limit; filtering runs in the store.
    */
   public list(options?: {
     status?: JobStatus
     page?: number
     pageSize?: number
+    offset?: number
+    limit?: number
   }): Job[] {
-    let filtered = Array.from(this.jobs.values())
-
-    if (options?.status) {
-      filtered = filtered.filter(j => j.status === options.status)
-    }
+    let offset = options?.offset
+    let limit = options?.limit
 
     if (options?.page && options.pageSize) {
-      const start = Math.max((options.page - 1) * options.pageSize, 0)
-      const end = start + options.pageSize
-      filtered = filtered.slice(start, end)
+      offset = Math.max((options.page - 1) * options.pageSize, 0)
+      limit = options.pageSize
     }
 
-    return filtered.map(cloneJob)
+    return this.store.list({ status: options?.status, offset, limit }).map(cloneJob)
   }
 
   /**
    * Retrieve a job by its ID
    */
   public get(id: string): Job | undefined {
-    const job = this.jobs.get(id)
+    const job = this.store.get(id)
     return job ? cloneJob(job) : undefined
   }
 
   /**
-   * Apply updates to an existing job
+   * Apply updates to an existing job.
+   * Status changes are checked against the state machine and recorded in the job history;
+   * throws InvalidTransitionError for illegal ones.
    */
-  public update(id: string, changes: JobUpdate): Job {
-    const job = this.jobs.get(id)
+  public update(id: string, changes: JobUpdate, actor = 'system'): Job {
+    const job = this.store.get(id)
     if (!job) throw new Error(`Job not found: ${id}`)
 
+    const now = new Date()
+    if (changes.status !== undefined && changes.status !== job.status) {
+      assertTransition(job.status, changes.status)
+      job.history.push({ from: job.status, to: changes.status, at: now, actor })
+      job.status = changes.status
+    }
+
     if (changes.title !== undefined) {
       job.title = changes.title
     }
 
-    if (changes.status !== undefined) {
-      job.status = changes.status
+    if (changes.progress !== undefined) {
+      job.progress = Math.min(100, Math.max(0, changes.progress))
     }
 
-    job.updatedAt = new Date()
+    if ('result' in changes) {
+      job.result = changes.result
+    }
+
+    if ('error' in changes) {
+      job.error = changes.error
+    }
+
+    if (changes.attempts !== undefined) {
+      job.attempts = changes.attempts
+    }
+
+    if ('owner' in changes) {
+      job.owner = changes.owner
+    }
+
+    if ('leaseExpiresAt' in changes) {
+      job.leaseExpiresAt = changes.leaseExpiresAt
+    }
+
+    job.updatedAt = now
+    this.store.save(job)
     this.emit('jobUpdated', cloneJob(job))
     return cloneJob(job)
   }
@@ -124,15 +197,15 @@ export class JobTracker extends EventEmitter {
   /**
    * Update only the job's status
    */
-  public updateStatus(id: string, status: JobStatus): Job {
-    return this.update(id, { status })
+  public updateStatus(id: string, status: JobStatus, actor?: string): Job {
+    return this.update(id, { status }, actor)
   }
 
   /**
    * Remove a job and emit event if it existed
    */
   public remove(id: string): boolean {
-    const existed = this.jobs.delete(id)
+    const existed = this.store.delete(id)
     if (existed) {
       this.emit('jobRemoved', id)
     }
@@ -143,9 +216,11 @@ export class JobTracker extends EventEmitter {
    * Remove all jobs and emit `jobRemoved` for each
    */
   public clearAll(): number {
-    const ids = Array.from(this.jobs.keys())
-    this.jobs.clear()
-    ids.forEach(id => this.emit('jobRemoved', id))
+    const ids = this.store.ids()
+    ids.forEach(id => {
+      this.store.delete(id)
+      this.emit('jobRemoved', id)
+    })
     return ids.length
   }
 
@@ -153,7 +228,6 @@ export class JobTracker extends EventEmitter {
    * Get total count, or count by status
    */
   public count(status?: JobStatus): number {
-    if (!status) return this.jobs.size
-    return Array.from(this.jobs.values()).filter(j => j.status === status).length
+    return this.store.count(status)
   }
 }
@@ -2,14 +2,25 @@ import express, { Request, Response, NextFunction } from "express"
 import cors from "cors"
 import morgan from "morgan"
 import { z } from "zod"
-import { JobTracker, Job } from "./jobTracker"
+import { Job, JobStatus, InvalidTransitionError } from "./jobTracker"
+import { JOB_STATUSES, allowedTransitions } from "./jobStateMachine"
+import { sharedTracker } from "./sharedTracker"
+import { JobRunner } from "./jobRunner"
+import { JobEvent, JobEventFeed, matchesFilter } from "./jobEventFeed"
+import { ShiftcoreService } from "../pulsecore/shiftcore/shiftcoreService"
+import { ShiftcoreAnalyzer } from "../pulsecore/shiftcore/shiftcoreAnalyzer"
+import { MainHubService } from "../autojobs/mainhub/MainHubService"
 import { randomUUID } from "crypto"
+import { PacketSchema } from "../autojobs/sendpack/sendpack"
+import { KEY_ID_HEADER, captureRawBody, parseSigningKeys, verifySendPackSignature } from "../autojobs/sendpack/signing"
+import { OpenApiBuilder } from "../autojobs/typestruct/openapi"
+import type { JsonSchema } from "../autojobs/typestruct/jsonSchema"
 
 const app = express()
 
 // ----- Constants & helpers -----
-const STATUSES = ["pending", "in_progress", "completed"] as const
-type JobStatus = (typeof STATUSES)[number]
+/** Actor recorded in job transition history */
+const actorOf = (req: Request): string => req.header("x-actor")?.trim() || "api"
 
 const asyncHandler =
   <T extends Request>(fn: (req: T, res: Response, next: NextFunction) => Promise<any> | any) =>
@@ -34,7 +45,8 @@ app.use(
     credentials: true,
   })
 )
-app.use(express.json())
+// Raw body kept for SendPack signature verification
+app.use(express.json({ verify: captureRawBody }))
 
 // Log format with request id
 app.use(
@@ -46,12 +58,21 @@ app.use(
 // ----- Zod schemas -----
 const createJobSchema = z.object({
   title: z.string().min(1, "title is required"),
+  /** Registered handler type; omit for a manually tracked job */
+  type: z.string().min(1).optional(),
+  payload: z.unknown().optional(),
+  timeoutMs: z.number().int().positive().max(3_600_000).optional(),
+  maxAttempts: z.number().int().min(1).max(20).optional(),
+})
+
+const statusSchema = z.nativeEnum(JobStatus, {
+  errorMap: () => ({ message: `invalid status, expected one of: ${JOB_STATUSES.join(", ")}` }),
 })
 
 const updateJobSchema = z.object({
-  status: z.enum(STATUSES, {
-    errorMap: () => ({ message: "invalid status" }),
-  }),
+  status: statusSchema,
+  /** Recorded in the job's transition history; falls back to the X-Actor header */
+  actor: z.string().min(1).max(200).optional(),
 })
 
 const idParamSchema = z.object({
@@ -59,7 +80,7 @@ const idParamSchema = z.object({
 })
 
 const listQuerySchema = z.object({
-  status: z.enum(STATUSES).optional(),
+  status: statusSchema.optional(),
   limit: z
     .string()
     .transform(v => Number(v))
@@ -76,8 +97,84 @@ const listQuerySchema = z.object({
     .transform(v => (typeof v === "string" ? Number(v) : (v as number))),
 })
 
+const csvList = z
+  .string()
+  .optional()
+  .transform(v => (v ? v.split(",").map(s => s.trim()).filter(Boolean) : []))
+
+const eventsQuerySchema = z.object({
+  status: csvList.refine(
+    list => list.every(s => (JOB_STATUSES as string[]).includes(s)),
+    "invalid status filter"
+  ),
+  id: csvList,
+  lastEventId: z.string().regex(/^\d+$/, "lastEventId must be numeric").optional(),
+})
+
+const HEARTBEAT_MS = Number(process.env.SSE_HEARTBEAT_MS) || 15_000
+
+// Open SSE responses, ended on shutdown so server.close() can complete
+const streams = new Set<Response>()
+
 // ----- Tracker -----
-const tracker = new JobTracker()
+// JOB_STORE_PATH enables the append-only log store so job history survives restarts;
+// tasks and hub tasks from other processes sharing that log show up here as well
+const tracker = sharedTracker()
+
+// Sequenced event feed backing the SSE stream
+const feed = new JobEventFeed(tracker, Number(process.env.SSE_REPLAY_BUFFER) || 1000)
+
+// ----- Runner & handlers -----
+const runner = new JobRunner(tracker, {
+  concurrency: Number(process.env.JOB_CONCURRENCY) || 4,
+  retry: { maxAttempts: 3, backoffMs: 2_000 },
+})
+
+// Registers the hub.* task types on this runner
+new MainHubService(tracker, runner)
+
+// "keyId:secret,..." accepted on POST /api/v1/packets; list old and new keys while rotating
+const signingKeys = parseSigningKeys(process.env.SENDPACK_SIGNING_KEYS)
+const SIGNATURE_TOLERANCE_SEC = Number(process.env.SENDPACK_SIGNATURE_TOLERANCE_SEC) || 300
+
+const RPC = process.env.SOLANA_RPC_ENDPOINT
+if (RPC) {
+  const shiftcore = new ShiftcoreService(RPC)
+  const analyzer = new ShiftcoreAnalyzer()
+  const scanPayloadSchema = z.object({
+    mint: z.string().min(1),
+    limit: z.number().int().positive().max(1000).optional(),
+  })
+  runner.register(
+    "shiftcore.scan",
+    async (payload: unknown, ctx) => {
+      const { mint, limit } = scanPayloadSchema.parse(payload)
+      const records = await shiftcore.fetchTransfers(mint, limit ?? 100)
+      ctx.progress(80)
+      return { summary: analyzer.summarize(records), transfers: records.length }
+    },
+    { timeoutMs: 120_000 }
+  )
+}
+
+/** Submit to the runner when typed, otherwise track manually; replies 201 or 400 */
+const createJob = (res: Response, input: z.infer<typeof createJobSchema>, actor: string) => {
+  const { title, type, payload, timeoutMs, maxAttempts } = input
+  if (type && !runner.hasHandler(type)) {
+    return res.status(400).json({
+      success: false,
+      error: `unknown job type: ${type}`,
+      types: runner.types(),
+    })
+  }
+  const job: Job = type
+    ? runner.submit(type, payload, { title, timeoutMs, maxAttempts, actor })
+    : tracker.create(title, { actor })
+  res
+    .status(201)
+    .setHeader("Location", `/api/v1/jobs/${job.id}`)
+    .json({ success: true, job })
+}
 
 // ----- Routes (versioned) -----
 const api = express.Router()
@@ -85,30 +182,81 @@ const api = express.Router()
 api.post(
   "/jobs",
   asyncHandler((req: Request, res: Response) => {
-    const { title } = createJobSchema.parse(req.body)
-    const job: Job = tracker.create(title)
-    res
-      .status(201)
-      .setHeader("Location", `/api/v1/jobs/${job.id}`)
-      .json({ success: true, job })
+    createJob(res, createJobSchema.parse(req.body), actorOf(req))
   })
 )
 
+// Signed job intake for SendPack senders: the packet payload is a POST /jobs body
+// (title defaults to the packet id). Only mounted when SENDPACK_SIGNING_KEYS is set.
+if (signingKeys) {
+  api.post(
+    "/packets",
+    verifySendPackSignature({ keys: signingKeys, toleranceSec: SIGNATURE_TOLERANCE_SEC }),
+    asyncHandler((req: Request, res: Response) => {
+      const packet = PacketSchema.parse(req.body)
+      const input = createJobSchema.parse({ title: `packet ${packet.id}`, ...packet.payload })
+      createJob(res, input, `sendpack:${req.header(KEY_ID_HEADER)}`)
+    })
+  )
+}
+
 api.get(
   "/jobs",
   asyncHandler((req: Request, res: Response) => {
     const { status, limit, offset } = listQuerySchema.parse(req.query)
-    let jobs = tracker.list()
-    if (status) {
-      jobs = jobs.filter(j => j.status === status)
-    }
-    const window = jobs.slice(offset, offset + limit)
+    const jobs = tracker.list({ status, offset, limit })
     res.json({
       success: true,
-      total: jobs.length,
+      total: tracker.count(status),
       limit,
       offset,
-      jobs: window,
+      jobs,
+    })
+  })
+)
+
+// Server-Sent Events stream of job lifecycle; registered before /jobs/:id
+api.get(
+  "/jobs/events",
+  asyncHandler((req: Request, res: Response) => {
+    const { status, id, lastEventId } = eventsQuerySchema.parse(req.query)
+    const filter = { statuses: status, ids: id }
+    const header = req.header("last-event-id")
+    const resumeFrom = Number(header ?? lastEventId ?? NaN)
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    })
+    res.flushHeaders()
+    res.write(`retry: 3000\n\n`)
+
+    const send = (event: JobEvent) => {
+      if (!matchesFilter(event, filter)) return
+      const data = event.job ? { job: event.job } : { id: event.jobId }
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`)
+    }
+
+    if (Number.isFinite(resumeFrom)) {
+      const missed = feed.since(resumeFrom)
+      if (missed === null) {
+        // Behind the replay buffer, or from before a restart: client must refetch the list
+        res.write(`id: ${feed.lastId}\nevent: resync\ndata: ${JSON.stringify({ lastEventId: feed.lastId })}\n\n`)
+      } else {
+        missed.forEach(send)
+      }
+    }
+
+    const unsubscribe = feed.subscribe(send)
+    const heartbeat = setInterval(() => res.write(`: heartbeat ${Date.now()}\n\n`), HEARTBEAT_MS)
+    streams.add(res)
+
+    req.on("close", () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+      streams.delete(res)
     })
   })
 )
@@ -125,22 +273,152 @@ api.get(
   })
 )
 
+/** Statuses only JobRunner may set on jobs it has a handler for */
+const RUNNER_STATUSES: JobStatus[] = [JobStatus.Running, JobStatus.Completed]
+
 api.patch(
   "/jobs/:id",
   asyncHandler((req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params)
-    const { status } = updateJobSchema.parse(req.body)
-    const updated = tracker.updateStatus(id, status as JobStatus)
-    if (!updated) {
+    const { status, actor } = updateJobSchema.parse(req.body)
+    const current = tracker.get(id)
+    if (!current) {
       return res.status(404).json({ success: false, error: "job not found" })
     }
-    const job = tracker.get(id)!
-    res.json({ success: true, job })
+    const runnable = !!current.type && runner.hasHandler(current.type)
+    // Running and Completed are reported by the runner; setting them by hand would fake an execution
+    if (runnable && status !== current.status && RUNNER_STATUSES.includes(status)) {
+      return res.status(409).json({
+        success: false,
+        error: `${status} is set by the runner for ${current.type} jobs`,
+        from: current.status,
+        to: status,
+        allowed: allowedTransitions(current.status).filter(s => !RUNNER_STATUSES.includes(s)),
+      })
+    }
+    const requeue = runnable && status === JobStatus.Pending && current.status !== JobStatus.Pending
+    // A re-queued job starts over with its full attempt budget
+    const job = tracker.update(id, requeue ? { status, attempts: 0 } : { status }, actor ?? actorOf(req))
+    if (requeue) runner.schedule(job.id)
+    res.json({ success: true, job, allowed: allowedTransitions(job.status) })
+  })
+)
+
+api.delete(
+  "/jobs/:id",
+  asyncHandler((req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params)
+    if (!tracker.remove(id)) {
+      return res.status(404).json({ success: false, error: "job not found" })
+    }
+    res.json({ success: true, id })
   })
 )
 
 app.use("/api/v1", api)
 
+// ----- OpenAPI -----
+const openapi = new OpenApiBuilder({ title: "JobTracker API", version: "1.0.0" }).server("/api/v1")
+const jobRef = openapi.component(
+  "Job",
+  z.object({
+    id: z.string(),
+    title: z.string(),
+    status: statusSchema,
+    createdAt: z.date(),
+    updatedAt: z.date(),
+    type: z.string().optional(),
+    payload: z.unknown().optional(),
+    progress: z.number().min(0).max(100),
+    result: z.unknown().optional(),
+    error: z.string().optional(),
+    attempts: z.number().int(),
+    maxAttempts: z.number().int(),
+    timeoutMs: z.number().int().optional(),
+    history: z.array(
+      z.object({ from: statusSchema.nullable(), to: statusSchema, at: z.date(), actor: z.string() })
+    ),
+  })
+)
+const ok = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: "object",
+  properties: { success: { const: true }, ...properties },
+  required: ["success", ...Object.keys(properties)],
+})
+const failure = { description: "Error", schema: z.object({ success: z.literal(false), error: z.string() }) }
+const notFound = { ...failure, description: "Job not found" }
+
+openapi
+  .route("post", "/jobs", {
+    summary: "Create a job; typed jobs are queued on the runner",
+    tags: ["jobs"],
+    body: createJobSchema,
+    responses: { 201: { description: "Created", schema: ok({ job: jobRef }) }, 400: failure },
+  })
+  .route("get", "/jobs", {
+    summary: "List jobs",
+    tags: ["jobs"],
+    query: listQuerySchema,
+    responses: {
+      200: {
+        description: "Page of jobs",
+        schema: ok({
+          total: { type: "integer" },
+          limit: { type: "integer" },
+          offset: { type: "integer" },
+          jobs: { type: "array", items: jobRef },
+        }),
+      },
+    },
+  })
+  .route("get", "/jobs/events", {
+    summary: "Server-Sent Events stream of job lifecycle events",
+    tags: ["jobs"],
+    query: eventsQuerySchema,
+    headers: z.object({ "last-event-id": z.string().optional() }),
+    responses: { 200: { description: "Event stream", contentType: "text/event-stream", schema: { type: "string" } } },
+  })
+  .route("get", "/jobs/:id", {
+    summary: "Get a job",
+    tags: ["jobs"],
+    params: idParamSchema,
+    responses: { 200: { description: "The job", schema: ok({ job: jobRef }) }, 404: notFound },
+  })
+  .route("patch", "/jobs/:id", {
+    summary: "Transition a job's status",
+    tags: ["jobs"],
+    params: idParamSchema,
+    body: updateJobSchema,
+    responses: {
+      200: { description: "Updated job", schema: ok({ job: jobRef, allowed: { type: "array", items: { type: "string" } } }) },
+      404: notFound,
+      409: { ...failure, description: "Transition not allowed, or reserved for the runner on typed jobs" },
+    },
+  })
+  .route("delete", "/jobs/:id", {
+    summary: "Delete a job",
+    tags: ["jobs"],
+    params: idParamSchema,
+    responses: { 200: { description: "Deleted", schema: ok({ id: { type: "string" } }) }, 404: notFound },
+  })
+if (signingKeys) {
+  openapi.route("post", "/packets", {
+    summary: "Create a job from a signed SendPack packet",
+    tags: ["jobs"],
+    body: PacketSchema,
+    responses: {
+      201: { description: "Created", schema: ok({ job: jobRef }) },
+      400: failure,
+      401: { ...failure, description: "Missing or invalid signature" },
+    },
+  })
+}
+const openapiDoc = openapi.build()
+
+app.get("/openapi.json", (_req, res) => {
+  res.json(openapiDoc)
+})
+
 // Health check (lightweight, unversioned OK)
 app.get("/health", (_req, res) => {
   res.json({
@@ -165,6 +443,16 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
       .status(400)
       .json({ success: false, requestId, errors: err.errors })
   }
+  if (err instanceof InvalidTransitionError) {
+    return res.status(409).json({
+      success: false,
+      requestId,
+      error: err.message,
+      from: err.from,
+      to: err.to,
+      allowed: err.allowed,
+    })
+  }
   if (err?.type === "entity.parse.failed" || err instanceof SyntaxError) {
     return res
       .status(400)
@@ -177,12 +465,17 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
 // ----- Start server -----
 const port = Number(process.env.PORT) || 3000
 const server = app.listen(port, () => {
+  const resumed = runner.start()
   console.log(`🚀 JobTracker API listening on http://localhost:${port}`)
+  if (resumed) console.log(`Resumed ${resumed} queued job(s)`)
 })
 
 // Graceful shutdown
 const shutdown = (signal: string) => {
   console.log(`\n${signal} received — shutting down...`)
+  runner.stop()
+  feed.close()
+  streams.forEach(stream => stream.end())
   server.close(err => {
     if (err) {
       console.error("Error during server close:", err)
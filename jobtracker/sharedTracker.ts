@@ -0,0 +1,18 @@
+import { JobTracker } from './jobTracker'
+import { FileJobStore, MemoryJobStore } from './jobStore'
+
+let shared: JobTracker | undefined
+
+/**
+ * Process-wide tracker used by the jobs API, the tasks API/CLI and MainHubService.
+ * With JOB_STORE_PATH set, every process sharing that log sees the same jobs.
+ */
+export function sharedTracker(): JobTracker {
+  if (!shared) {
+    const storePath = process.env.JOB_STORE_PATH
+    shared = new JobTracker(
+      storePath ? new FileJobStore(storePath, { followExternalWrites: true }) : new MemoryJobStore()
+    )
+  }
+  return shared
+}